@@ -0,0 +1,840 @@
+import fs from 'fs';
+import { randomUUID } from 'crypto';
+import { AccountService, SessionService } from '../core/services/index.js';
+import type { ClientSettings, ConnectionType, ConnectionUser } from '../core/services/index.js';
+import type {
+  AccountInsights,
+  AlbumItemFile,
+  CommentSummary,
+  ConnectionsPage,
+  DirectMessageSummary,
+  DirectTarget,
+  DirectThreadSummary,
+  FeedPage,
+  InstagramAdapter,
+  LocationSummary,
+  LoginResult,
+  PostDetails,
+  ProxyCheckResult,
+  PublishResult,
+  StoryUploadOptions,
+  TrimmedMedia,
+  UserSearchResult,
+  UserTag
+} from './types.js';
+import { checkUsertags, mediaIdToShortcode, trimMedia } from './real.js';
+
+/**
+ * A step the fake can be told to fail on: any adapter call, or "two_factor" /
+ * "checkpoint" to make logins ask for a verification code
+ */
+export type FakeStep = Exclude<keyof InstagramAdapter, 'name'> | 'two_factor' | 'checkpoint';
+
+// The code that clears a simulated two-factor or checkpoint challenge
+export const FAKE_VERIFICATION_CODE = '123456';
+
+interface FakeUser {
+  pk: string;
+  username: string;
+  full_name: string;
+  biography: string;
+  is_private: boolean;
+  is_verified: boolean;
+}
+
+/**
+ * One call to a publishing method, as the fake received it
+ */
+export interface PublishedMedia {
+  id: string;
+  code: string;
+  kind: 'photo' | 'video' | 'carousel' | 'story' | 'reel';
+  account: string;
+  caption: string | null;
+  files: { name: string; bytes: number }[];
+  options?: Record<string, any>;
+  publishedAt: string;
+}
+
+interface FakeThread {
+  thread_id: string;
+  thread_title: string;
+  users: FakeUser[];
+  items: DirectMessageSummary[];
+  pending: boolean;
+  unread_count: number;
+}
+
+interface FakeFixtures {
+  users?: (Partial<FakeUser> & { username: string })[];
+  media?: { owner: string; caption?: string; type?: 'photo' | 'video'; locationId?: string; likes?: number }[];
+}
+
+class FakeClient {
+  constructor(public readonly account: string, public readonly user: FakeUser) {}
+}
+
+const LOCATIONS: LocationSummary[] = [
+  { pk: '212988663', name: 'New York, New York', address: '', lat: 40.7142, lng: -74.0064, external_id: '108424279189115', external_id_source: 'facebook_places' },
+  { pk: '213385402', name: 'London, United Kingdom', address: '', lat: 51.5072, lng: -0.1275, external_id: '106078429431815', external_id_source: 'facebook_places' },
+  { pk: '6889842', name: 'Paris, France', address: '', lat: 48.8566, lng: 2.3522, external_id: '110774245616525', external_id_source: 'facebook_places' }
+];
+
+let users: FakeUser[] = [];
+let media: any[] = [];
+let published: PublishedMedia[] = [];
+let comments = new Map<string, CommentSummary[]>();
+let threads: FakeThread[] = [];
+let nextPk = 5000;
+const sessions = new Map<string, FakeClient>();
+const challenges = new Map<string, { account: string; username: string }>();
+const failures = new Map<FakeStep, string>();
+
+function newPk(): string {
+  return String(nextPk++);
+}
+
+function addUser(user: Partial<FakeUser> & { username: string }): FakeUser {
+  const created: FakeUser = {
+    pk: user.pk ?? newPk(),
+    username: user.username.toLowerCase(),
+    full_name: user.full_name ?? user.username,
+    biography: user.biography ?? '',
+    is_private: user.is_private ?? false,
+    is_verified: user.is_verified ?? false
+  };
+  users.push(created);
+  return created;
+}
+
+function findUser(username: string): FakeUser | undefined {
+  return users.find(user => user.username === username.toLowerCase());
+}
+
+/**
+ * Build a media item in the private API's raw feed shape
+ */
+function addMedia(owner: FakeUser, type: 'photo' | 'video' | 'carousel', caption?: string, extra: Record<string, any> = {}) {
+  const pk = newPk();
+  const imageUrl = `https://fake.instagram.test/media/${pk}.jpg`;
+  const item = {
+    id: `${pk}_${owner.pk}`,
+    pk,
+    code: mediaIdToShortcode(pk),
+    media_type: type === 'video' ? 2 : type === 'carousel' ? 8 : 1,
+    caption: caption ? { text: caption } : null,
+    like_count: 0,
+    comment_count: 0,
+    taken_at: Math.floor(Date.now() / 1000),
+    user: { pk: owner.pk, username: owner.username },
+    image_versions2: { candidates: [{ url: imageUrl, width: 1080, height: 1080 }] },
+    ...(type === 'video' ? { video_versions: [{ url: `https://fake.instagram.test/media/${pk}.mp4`, width: 1080, height: 1920 }] } : {}),
+    ...extra
+  };
+  media.unshift(item);
+  comments.set(item.id, []);
+  return item;
+}
+
+function addComment(mediaId: string, author: FakeUser, text: string): CommentSummary {
+  const comment: CommentSummary = {
+    pk: newPk(),
+    text,
+    created_at: Math.floor(Date.now() / 1000),
+    user: { pk: author.pk, username: author.username },
+    like_count: 0,
+    child_comment_count: 0
+  };
+  const list = comments.get(mediaId) ?? [];
+  list.push(comment);
+  comments.set(mediaId, list);
+  const item = media.find(entry => entry.id === mediaId);
+  if (item) {
+    item.comment_count = list.length;
+  }
+  return comment;
+}
+
+function message(userId: string, text: string): DirectMessageSummary {
+  return {
+    item_id: newPk(),
+    user_id: userId,
+    timestamp: String(Date.now() * 1000),
+    item_type: 'text',
+    text,
+    media_url: null
+  };
+}
+
+/**
+ * Canned profiles, posts, comments and threads, plus whatever IG_FAKE_FIXTURES adds
+ */
+function seed() {
+  users = [];
+  media = [];
+  published = [];
+  comments = new Map();
+  threads = [];
+  nextPk = 5000;
+
+  const instagram = addUser({ pk: '25025320', username: 'instagram', full_name: 'Instagram', biography: 'Discover what\'s new on Instagram', is_verified: true });
+  const jane = addUser({ pk: '1001', username: 'jane_doe', full_name: 'Jane Doe', biography: 'Travel and food' });
+  const john = addUser({ pk: '1002', username: 'john_smith', full_name: 'John Smith' });
+  addUser({ pk: '1003', username: 'private_pat', full_name: 'Pat', is_private: true });
+
+  const daysAgo = (days: number) => Math.floor(Date.now() / 1000) - days * 24 * 60 * 60;
+  const sunset = addMedia(jane, 'photo', 'Sunset over the river #travel #sunset', { like_count: 120, taken_at: daysAgo(3), location: { pk: LOCATIONS[1].pk, name: LOCATIONS[1].name } });
+  addMedia(jane, 'carousel', 'Brunch spots #food #travel', { like_count: 85, taken_at: daysAgo(2), location: { pk: LOCATIONS[0].pk, name: LOCATIONS[0].name } });
+  addMedia(instagram, 'video', 'Meet the creators #creators', { like_count: 5400, taken_at: daysAgo(1) });
+  addComment(sunset.id, john, 'Beautiful!');
+  addComment(sunset.id, instagram, 'Great shot 📸');
+
+  threads.push({
+    thread_id: '340282366841710300949128100000000001',
+    thread_title: jane.username,
+    users: [jane],
+    items: [message(jane.pk, 'Are we still on for Friday?')],
+    pending: false,
+    unread_count: 1
+  });
+  threads.push({
+    thread_id: '340282366841710300949128100000000002',
+    thread_title: john.username,
+    users: [john],
+    items: [message(john.pk, 'Hi! Love your photos')],
+    pending: true,
+    unread_count: 1
+  });
+
+  const fixturesFile = process.env.IG_FAKE_FIXTURES;
+  if (fixturesFile) {
+    const fixtures = JSON.parse(fs.readFileSync(fixturesFile, 'utf8')) as FakeFixtures;
+    (fixtures.users || []).forEach(user => findUser(user.username) || addUser(user));
+    (fixtures.media || []).forEach(entry => {
+      const owner = findUser(entry.owner) || addUser({ username: entry.owner });
+      const location = LOCATIONS.find(place => place.pk === entry.locationId);
+      addMedia(owner, entry.type || 'photo', entry.caption, {
+        like_count: entry.likes ?? 0,
+        ...(location ? { location: { pk: location.pk, name: location.name } } : {})
+      });
+    });
+  }
+}
+
+function maybeFail(step: FakeStep) {
+  const message = failures.get(step);
+  if (message !== undefined) {
+    throw new Error(message);
+  }
+  const fromEnv = (process.env.IG_FAKE_FAIL || '').split(',').map(entry => entry.trim());
+  if (fromEnv.includes(step)) {
+    throw new Error(`Simulated Instagram failure at ${step}`);
+  }
+}
+
+function isFailing(step: FakeStep): boolean {
+  try {
+    maybeFail(step);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Make every later call to a step fail, until clearFailures is called
+ * @param step Adapter method name, or "two_factor" / "checkpoint"
+ * @param message Error message to throw
+ */
+export function failOn(step: FakeStep, message: string = `Simulated Instagram failure at ${step}`) {
+  failures.set(step, message);
+}
+
+export function clearFailures() {
+  failures.clear();
+}
+
+/**
+ * Everything published through the fake since the last reset, oldest first
+ */
+export function getPublishedMedia(): PublishedMedia[] {
+  return [...published];
+}
+
+/**
+ * Drop sessions, failures and published media and reload the canned data
+ */
+export function resetFake() {
+  sessions.clear();
+  challenges.clear();
+  failures.clear();
+  seed();
+}
+
+function paginate<T>(items: T[], kind: string, limit: number, cursor?: string): FeedPage<T> {
+  let offset = 0;
+  if (cursor) {
+    let decoded: { kind: string; offset: number };
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid cursor');
+    }
+    if (decoded.kind !== kind) {
+      throw new Error(`Cursor belongs to a different feed (${decoded.kind})`);
+    }
+    offset = decoded.offset;
+  }
+  const pageItems = items.slice(offset, offset + limit);
+  const nextOffset = offset + pageItems.length;
+  return {
+    items: pageItems,
+    nextCursor: nextOffset < items.length ? Buffer.from(JSON.stringify({ kind, offset: nextOffset })).toString('base64url') : null
+  };
+}
+
+function fileInfo(filePath: string) {
+  return { name: filePath.split(/[\\/]/).pop() as string, bytes: fs.statSync(filePath).size };
+}
+
+async function fakeUsertags(ig: FakeClient, usertags: UserTag[] = []) {
+  checkUsertags(usertags);
+  const tags = [];
+  for (const tag of usertags) {
+    try {
+      const pk = await resolveUserId(ig, tag.username);
+      tags.push({ user: { pk, username: users.find(user => user.pk === pk)?.username }, position: [tag.x, tag.y] });
+    } catch (error: any) {
+      throw new Error(`Cannot tag @${tag.username.replace(/^@/, '')}: ${error.message}`);
+    }
+  }
+  return tags;
+}
+
+function fakeLocation(location?: string) {
+  if (!location) {
+    return undefined;
+  }
+  const value = location.trim();
+  const match = /^\d+$/.test(value)
+    ? LOCATIONS.find(place => place.pk === value)
+    : LOCATIONS.find(place => place.name.toLowerCase().includes(value.toLowerCase()));
+  if (!match) {
+    throw new Error(/^\d+$/.test(value) ? `Location not found: ${value}` : `No location found for "${value}"`);
+  }
+  return { pk: match.pk, name: match.name };
+}
+
+/**
+ * Resolve tags and location the way the real adapter does, returning the
+ * extra raw media fields they produce
+ */
+async function postFields(ig: FakeClient, details: PostDetails = {}) {
+  const usertags = await fakeUsertags(ig, details.usertags);
+  const location = fakeLocation(details.location);
+  return {
+    ...(usertags.length > 0 ? { usertags: { in: usertags } } : {}),
+    ...(location ? { location } : {}),
+    ...(details.altText ? { accessibility_caption: details.altText } : {})
+  };
+}
+
+function publish(ig: FakeClient, kind: PublishedMedia['kind'], files: string[], caption?: string, options?: Record<string, any>, fields: Record<string, any> = {}): PublishResult {
+  const type = kind === 'carousel' ? 'carousel' : kind === 'video' || kind === 'reel' || options?.video ? 'video' : 'photo';
+  const item = addMedia(ig.user, type, caption, {
+    product_type: kind === 'reel' ? 'clips' : kind === 'story' ? 'story' : kind === 'carousel' ? 'carousel_container' : 'feed',
+    ...fields
+  });
+  published.push({
+    id: item.id,
+    code: item.code,
+    kind,
+    account: ig.account,
+    caption: caption ?? null,
+    files: files.map(fileInfo),
+    options,
+    publishedAt: new Date().toISOString()
+  });
+  return { mediaId: item.id, code: item.code };
+}
+
+// Feed posts only; stories and archived posts never show up in grids or timelines
+function gridMedia(): any[] {
+  return media.filter(item => item.product_type !== 'story' && !item.archived);
+}
+
+function mediaById(mediaId: string) {
+  const item = media.find(entry => entry.id === mediaId || entry.pk === mediaId);
+  if (!item) {
+    throw new Error(`Media not found: ${mediaId}`);
+  }
+  return item;
+}
+
+function summarizeThread(thread: FakeThread): DirectThreadSummary {
+  return {
+    thread_id: thread.thread_id,
+    title: thread.thread_title,
+    users: thread.users.map(user => ({ pk: user.pk, username: user.username })),
+    last_activity_at: thread.items[0]?.timestamp ?? '0',
+    unread_count: thread.unread_count,
+    pending: thread.pending,
+    last_message: thread.items[0] ?? null
+  };
+}
+
+async function threadFor(ig: FakeClient, target: DirectTarget): Promise<FakeThread> {
+  if (target.threadId) {
+    const thread = threads.find(entry => entry.thread_id === target.threadId);
+    if (!thread) {
+      throw new Error(`Thread not found: ${target.threadId}`);
+    }
+    return thread;
+  }
+  if (target.recipient) {
+    const userId = await resolveUserId(ig, target.recipient);
+    const existing = threads.find(entry => entry.users.length === 1 && entry.users[0].pk === userId);
+    if (existing) {
+      return existing;
+    }
+    const recipient = users.find(user => user.pk === userId) as FakeUser;
+    const thread: FakeThread = { thread_id: `3402823668417103009491281${newPk()}`, thread_title: recipient.username, users: [recipient], items: [], pending: false, unread_count: 0 };
+    threads.unshift(thread);
+    return thread;
+  }
+  throw new Error('Provide a threadId or a recipient');
+}
+
+async function login(username: string, password: string) {
+  maybeFail('login');
+  return new FakeClient(username.toLowerCase(), findUser(username) || addUser({ username }));
+}
+
+async function createSession(username: string, password: string, account: string = username): Promise<LoginResult<FakeClient>> {
+  const handle = SessionService.normalizeAccount(account);
+  maybeFail('createSession');
+  const type = isFailing('two_factor') ? 'two_factor' : isFailing('checkpoint') ? 'checkpoint' : undefined;
+  if (type) {
+    const challengeId = randomUUID();
+    challenges.set(challengeId, { account: handle, username });
+    return {
+      status: 'needs_verification',
+      account: handle,
+      challengeId,
+      type,
+      method: type === 'two_factor' ? 'totp' : 'email',
+      contactPoint: type === 'checkpoint' ? 'f***@example.com' : undefined
+    };
+  }
+  const ig = new FakeClient(handle, findUser(username) || addUser({ username }));
+  sessions.set(handle, ig);
+  return { status: 'logged_in', account: handle, userId: ig.user.pk, ig };
+}
+
+async function completeChallenge(challengeId: string, code: string): Promise<LoginResult<FakeClient>> {
+  maybeFail('completeChallenge');
+  const challenge = challenges.get(challengeId);
+  if (!challenge) {
+    throw new Error(`Unknown or expired challenge: ${challengeId}. Call instagram_login again.`);
+  }
+  if (code !== FAKE_VERIFICATION_CODE) {
+    throw new Error('Invalid verification code');
+  }
+  challenges.delete(challengeId);
+  const ig = new FakeClient(challenge.account, findUser(challenge.username) || addUser({ username: challenge.username }));
+  sessions.set(challenge.account, ig);
+  return { status: 'logged_in', account: challenge.account, userId: ig.user.pk, ig };
+}
+
+async function withSession<T>(account: string, operation: (ig: FakeClient) => Promise<T>): Promise<T> {
+  const handle = SessionService.normalizeAccount(account);
+  maybeFail('withSession');
+  let ig = sessions.get(handle);
+  if (!ig) {
+    // Registry accounts log in on first use, like the real adapter
+    const config = AccountService.get(handle);
+    if (!config) {
+      throw new Error(`No session found for account "${handle}". Call instagram_login first.`);
+    }
+    if (config.sessionFile && !fs.existsSync(config.sessionFile)) {
+      throw new Error(`Session file for account "${handle}" not found: ${config.sessionFile}`);
+    }
+    const username = config.username || handle;
+    ig = new FakeClient(handle, findUser(username) || addUser({ username }));
+    sessions.set(handle, ig);
+  }
+  return await operation(ig);
+}
+
+async function getSessionUsername(account: string) {
+  maybeFail('getSessionUsername');
+  return sessions.get(SessionService.normalizeAccount(account))?.user.username ?? null;
+}
+
+// Every proxy answers, without any request leaving the process
+async function checkProxy(settings: ClientSettings, targetUrl: string): Promise<ProxyCheckResult> {
+  maybeFail('checkProxy');
+  return { reachable: true, target: targetUrl, statusCode: 200, latencyMs: 0, userAgent: settings.userAgent || 'Instagram (fake backend)' };
+}
+
+async function destroySession(account: string) {
+  maybeFail('destroySession');
+  return sessions.delete(SessionService.normalizeAccount(account));
+}
+
+async function uploadPhoto(ig: FakeClient, filePath: string, caption?: string, details: PostDetails = {}) {
+  maybeFail('uploadPhoto');
+  const fields = await postFields(ig, details);
+  return publish(ig, 'photo', [filePath], caption, { ...details }, fields);
+}
+
+async function uploadVideo(ig: FakeClient, filePath: string, coverImagePath: string, caption?: string, details: PostDetails = {}) {
+  maybeFail('uploadVideo');
+  const fields = await postFields(ig, details);
+  return publish(ig, 'video', [filePath, coverImagePath], caption, { ...details }, fields);
+}
+
+async function uploadAlbum(ig: FakeClient, items: AlbumItemFile[], caption?: string, location?: string) {
+  maybeFail('uploadAlbum');
+  items.forEach(item => checkUsertags(item.usertags));
+  const carouselMedia = [];
+  for (const [index, item] of items.entries()) {
+    const fields = await postFields(ig, { usertags: item.usertags, altText: item.altText });
+    const url = `https://fake.instagram.test/media/carousel-${nextPk}-${index}.${item.type === 'video' ? 'mp4' : 'jpg'}`;
+    carouselMedia.push({
+      media_type: item.type === 'video' ? 2 : 1,
+      ...(item.type === 'video' ? { video_versions: [{ url, width: 1080, height: 1920 }] } : { image_versions2: { candidates: [{ url, width: 1080, height: 1080 }] } }),
+      ...fields
+    });
+  }
+  const files = items.flatMap(item => item.type === 'video' ? [item.filePath, item.coverImagePath] : [item.filePath]);
+  return publish(ig, 'carousel', files, caption, {
+    items: items.map(item => item.type),
+    usertags: items.map(item => item.usertags || []),
+    altText: items.map(item => item.altText ?? null),
+    location
+  }, { carousel_media: carouselMedia, ...(location ? { location: fakeLocation(location) } : {}) });
+}
+
+async function uploadStory(ig: FakeClient, options: StoryUploadOptions) {
+  maybeFail('uploadStory');
+  const mentions = [];
+  for (const username of options.mentions || []) {
+    mentions.push(await resolveUserId(ig, username));
+  }
+  const files = options.coverImagePath ? [options.filePath, options.coverImagePath] : [options.filePath];
+  return publish(ig, 'story', files, undefined, {
+    video: Boolean(options.coverImagePath),
+    link: options.link,
+    mentions,
+    hashtags: (options.hashtags || []).map(tag => tag.replace(/^#/, ''))
+  });
+}
+
+async function uploadReel(ig: FakeClient, filePath: string, coverImagePath: string, caption?: string, shareToFeed: boolean = true) {
+  maybeFail('uploadReel');
+  return publish(ig, 'reel', [filePath, coverImagePath], caption, { shareToFeed });
+}
+
+async function resolveUserId(ig: FakeClient, user: string): Promise<string> {
+  maybeFail('resolveUserId');
+  const value = user.trim().replace(/^@/, '');
+  if (/^\d+$/.test(value)) {
+    return value;
+  }
+  const match = findUser(value);
+  if (!match) {
+    throw new Error(`Instagram user not found: ${value}`);
+  }
+  return match.pk;
+}
+
+async function searchUsers(ig: FakeClient, query: string, limit: number = 10): Promise<UserSearchResult[]> {
+  maybeFail('searchUsers');
+  const needle = query.trim().replace(/^@/, '').toLowerCase();
+  return users
+    .filter(user => user.username.includes(needle) || user.full_name.toLowerCase().includes(needle))
+    .slice(0, limit)
+    .map((user, index) => ({
+      rank: index + 1,
+      pk: user.pk,
+      username: user.username,
+      full_name: user.full_name,
+      is_verified: user.is_verified,
+      is_private: user.is_private
+    }));
+}
+
+async function getCurrentUser(ig: FakeClient) {
+  maybeFail('getCurrentUser');
+  return { pk: ig.user.pk, username: ig.user.username };
+}
+
+async function getProfile(ig: FakeClient, user: string) {
+  maybeFail('getProfile');
+  const userId = await resolveUserId(ig, user);
+  const profile = users.find(entry => entry.pk === userId);
+  if (!profile) {
+    throw new Error(`Instagram user not found: ${user}`);
+  }
+  return {
+    ...profile,
+    media_count: gridMedia().filter(item => item.user.pk === profile.pk).length,
+    follower_count: connectionsOf(profile, 'followers').length,
+    following_count: connectionsOf(profile, 'following').length,
+    profile_pic_url: `https://fake.instagram.test/avatars/${profile.pk}.jpg`
+  };
+}
+
+// Every other known user follows everyone, and is followed back by every odd pk
+function connectionsOf(profile: FakeUser, type: ConnectionType): ConnectionUser[] {
+  return users
+    .filter(user => user.pk !== profile.pk && (type === 'followers' || Number(user.pk) % 2 === 1))
+    .map(user => ({ pk: user.pk, username: user.username, full_name: user.full_name, is_private: user.is_private, is_verified: user.is_verified }));
+}
+
+async function getConnectionsPage(ig: FakeClient, user: string, type: ConnectionType, limit: number = 50, cursor?: string): Promise<ConnectionsPage> {
+  maybeFail('getConnectionsPage');
+  const userId = await resolveUserId(ig, user);
+  const profile = users.find(entry => entry.pk === userId);
+  const page = paginate(profile ? connectionsOf(profile, type) : [], `${type}:${userId}`, limit, cursor);
+  return { userId, ...page };
+}
+
+async function getAccountInsights(ig: FakeClient): Promise<AccountInsights> {
+  maybeFail('getAccountInsights');
+  const likes = gridMedia().filter(item => item.user.pk === ig.user.pk).reduce((sum, item) => sum + item.like_count, 0);
+  return {
+    userId: ig.user.pk,
+    username: ig.user.username,
+    followers_count: connectionsOf(ig.user, 'followers').length,
+    impressions: { count: likes * 10, delta: 0 },
+    reach: { count: likes * 6, delta: 0 },
+    profile_visits: { count: likes, delta: 0 },
+    website_visits: { count: 0, delta: 0 },
+    last_week_impressions: likes * 10
+  };
+}
+
+async function getMediaInfo(ig: FakeClient, mediaId: string) {
+  maybeFail('getMediaInfo');
+  return mediaById(mediaId);
+}
+
+function ownMedia(ig: FakeClient, mediaId: string) {
+  const item = mediaById(mediaId);
+  if (item.user.pk !== ig.user.pk) {
+    throw new Error(`Media ${mediaId} does not belong to ${ig.user.username}`);
+  }
+  return item;
+}
+
+async function editCaption(ig: FakeClient, mediaId: string, caption: string) {
+  maybeFail('editCaption');
+  const item = ownMedia(ig, mediaId);
+  item.caption = caption ? { text: caption } : null;
+  return { status: 'ok', media: item };
+}
+
+async function setArchived(ig: FakeClient, mediaId: string, archived: boolean) {
+  maybeFail('setArchived');
+  ownMedia(ig, mediaId).archived = archived;
+  return { status: 'ok' };
+}
+
+async function deleteMedia(ig: FakeClient, mediaId: string) {
+  maybeFail('deleteMedia');
+  const item = ownMedia(ig, mediaId);
+  media = media.filter(entry => entry !== item);
+  comments.delete(item.id);
+  return { did_delete: true, status: 'ok' };
+}
+
+async function getTimelinePage(ig: FakeClient, limit: number = 10, cursor?: string) {
+  maybeFail('getTimelinePage');
+  return paginate(gridMedia(), 'timeline', limit, cursor);
+}
+
+async function getUserFeedPage(ig: FakeClient, user: string, limit: number = 10, cursor?: string) {
+  maybeFail('getUserFeedPage');
+  const userId = await resolveUserId(ig, user);
+  return paginate(gridMedia().filter(item => item.user.pk === userId), `user:${userId}`, limit, cursor);
+}
+
+async function getSavedFeedPage(ig: FakeClient, limit: number = 10, cursor?: string) {
+  maybeFail('getSavedFeedPage');
+  return paginate(gridMedia().filter(item => item.user.pk !== ig.user.pk).slice(0, 2), 'saved', limit, cursor);
+}
+
+async function getHashtagFeedPage(ig: FakeClient, tag: string, section: 'top' | 'recent', limit: number = 10, cursor?: string): Promise<FeedPage<TrimmedMedia>> {
+  maybeFail('getHashtagFeedPage');
+  const name = tag.trim().replace(/^#/, '').toLowerCase();
+  const tagged = gridMedia().filter(item => new RegExp(`#${name}\\b`, 'i').test(item.caption?.text ?? ''));
+  const sorted = section === 'top' ? [...tagged].sort((a, b) => b.like_count - a.like_count) : tagged;
+  const page = paginate(sorted, `tag:${name}:${section}`, limit, cursor);
+  return { items: page.items.map(trimMedia), nextCursor: page.nextCursor };
+}
+
+async function searchLocations(ig: FakeClient, query: string, coordinates?: { latitude: number; longitude: number }): Promise<LocationSummary[]> {
+  maybeFail('searchLocations');
+  const matches = LOCATIONS.filter(place => place.name.toLowerCase().includes(query.trim().toLowerCase()));
+  return coordinates ? matches.map(place => ({ ...place, pk: null })) : matches;
+}
+
+async function getLocationFeedPage(ig: FakeClient, locationId: string, section: 'recent' | 'ranked', limit: number = 10, cursor?: string): Promise<FeedPage<TrimmedMedia>> {
+  maybeFail('getLocationFeedPage');
+  const located = gridMedia().filter(item => item.location?.pk === locationId);
+  const sorted = section === 'ranked' ? [...located].sort((a, b) => b.like_count - a.like_count) : located;
+  const page = paginate(sorted, `location:${locationId}:${section}`, limit, cursor);
+  return { items: page.items.map(trimMedia), nextCursor: page.nextCursor };
+}
+
+async function getCommentsPage(ig: FakeClient, mediaId: string, limit: number = 20, cursor?: string): Promise<FeedPage<CommentSummary>> {
+  maybeFail('getCommentsPage');
+  const item = mediaById(mediaId);
+  return paginate(comments.get(item.id) ?? [], `comments:${mediaId}`, limit, cursor);
+}
+
+async function replyToComment(ig: FakeClient, mediaId: string, commentId: string, text: string) {
+  maybeFail('replyToComment');
+  const item = mediaById(mediaId);
+  if (item.comments_disabled) {
+    throw new Error('Comments are turned off for this post');
+  }
+  const parent = (comments.get(item.id) ?? []).find(comment => comment.pk === commentId);
+  if (!parent) {
+    throw new Error(`Comment not found: ${commentId}`);
+  }
+  parent.child_comment_count++;
+  return { ...addComment(item.id, ig.user, text), parent_comment_id: commentId };
+}
+
+async function likeComment(ig: FakeClient, commentId: string) {
+  maybeFail('likeComment');
+  const comment = [...comments.values()].flat().find(entry => entry.pk === commentId);
+  if (!comment) {
+    throw new Error(`Comment not found: ${commentId}`);
+  }
+  comment.like_count++;
+  return { status: 'ok' };
+}
+
+async function deleteComments(ig: FakeClient, mediaId: string, commentIds: string[]) {
+  maybeFail('deleteComments');
+  const item = mediaById(mediaId);
+  const remaining = (comments.get(item.id) ?? []).filter(comment => !commentIds.includes(comment.pk));
+  comments.set(item.id, remaining);
+  item.comment_count = remaining.length;
+  return { status: 'ok' };
+}
+
+async function setCommentsEnabled(ig: FakeClient, mediaId: string, enabled: boolean) {
+  maybeFail('setCommentsEnabled');
+  mediaById(mediaId).comments_disabled = !enabled;
+  return { status: 'ok' };
+}
+
+async function getInboxPage(ig: FakeClient, limit: number = 20, cursor?: string): Promise<FeedPage<DirectThreadSummary>> {
+  maybeFail('getInboxPage');
+  const page = paginate(threads.filter(thread => !thread.pending), 'direct_inbox', limit, cursor);
+  return { items: page.items.map(summarizeThread), nextCursor: page.nextCursor };
+}
+
+async function getPendingInboxPage(ig: FakeClient, limit: number = 20, cursor?: string): Promise<FeedPage<DirectThreadSummary>> {
+  maybeFail('getPendingInboxPage');
+  const page = paginate(threads.filter(thread => thread.pending), 'direct_pending', limit, cursor);
+  return { items: page.items.map(summarizeThread), nextCursor: page.nextCursor };
+}
+
+async function getThreadMessagesPage(ig: FakeClient, threadId: string, limit: number = 20, cursor?: string): Promise<FeedPage<DirectMessageSummary>> {
+  maybeFail('getThreadMessagesPage');
+  const thread = await threadFor(ig, { threadId });
+  thread.unread_count = 0;
+  return paginate(thread.items, `direct_thread:${threadId}`, limit, cursor);
+}
+
+async function sendDirectText(ig: FakeClient, target: DirectTarget, text: string) {
+  maybeFail('sendDirectText');
+  const thread = await threadFor(ig, target);
+  const sent = message(ig.user.pk, text);
+  thread.items.unshift(sent);
+  return { thread_id: thread.thread_id, item_id: sent.item_id, timestamp: sent.timestamp };
+}
+
+async function sendDirectPhoto(ig: FakeClient, target: DirectTarget, filePath: string) {
+  maybeFail('sendDirectPhoto');
+  const thread = await threadFor(ig, target);
+  // Fail on a missing file, as the real client would
+  fs.statSync(filePath);
+  const sent: DirectMessageSummary = {
+    ...message(ig.user.pk, ''),
+    item_type: 'media',
+    text: null,
+    media_url: `https://fake.instagram.test/direct/${newPk()}.jpg`
+  };
+  thread.items.unshift(sent);
+  return { thread_id: thread.thread_id, item_id: sent.item_id, timestamp: sent.timestamp };
+}
+
+async function respondToMessageRequest(ig: FakeClient, threadId: string, approve: boolean) {
+  maybeFail('respondToMessageRequest');
+  const thread = threads.find(entry => entry.thread_id === threadId && entry.pending);
+  if (!thread) {
+    throw new Error(`Message request not found: ${threadId}`);
+  }
+  if (approve) {
+    thread.pending = false;
+  } else {
+    threads = threads.filter(entry => entry !== thread);
+  }
+  return { status: 'ok' };
+}
+
+seed();
+
+/**
+ * In-memory Instagram for development and CI. Logins always succeed (unless
+ * told otherwise with failOn or IG_FAKE_FAIL) and nothing leaves the process.
+ */
+export const fakeAdapter: InstagramAdapter = {
+  name: 'fake',
+  login,
+  createSession,
+  completeChallenge,
+  withSession,
+  destroySession,
+  getSessionUsername,
+  checkProxy,
+  uploadPhoto,
+  uploadVideo,
+  uploadAlbum,
+  uploadStory,
+  uploadReel,
+  getCurrentUser,
+  resolveUserId,
+  searchUsers,
+  getProfile,
+  getConnectionsPage,
+  getAccountInsights,
+  getMediaInfo,
+  editCaption,
+  setArchived,
+  deleteMedia,
+  getTimelinePage,
+  getUserFeedPage,
+  getSavedFeedPage,
+  getHashtagFeedPage,
+  searchLocations,
+  getLocationFeedPage,
+  getCommentsPage,
+  replyToComment,
+  likeComment,
+  deleteComments,
+  setCommentsEnabled,
+  getInboxPage,
+  getPendingInboxPage,
+  getThreadMessagesPage,
+  sendDirectText,
+  sendDirectPhoto,
+  respondToMessageRequest
+};
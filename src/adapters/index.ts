@@ -0,0 +1,25 @@
+import { realAdapter } from './real.js';
+import { fakeAdapter } from './fake.js';
+import type { InstagramAdapter } from './types.js';
+
+export * from './types.js';
+export { realAdapter } from './real.js';
+export { fakeAdapter, failOn, clearFailures, getPublishedMedia, resetFake, FAKE_VERIFICATION_CODE } from './fake.js';
+export type { FakeStep, PublishedMedia } from './fake.js';
+
+const adapters: Record<string, InstagramAdapter> = {
+  real: realAdapter,
+  fake: fakeAdapter
+};
+
+/**
+ * The Instagram backend selected by IG_BACKEND ("real" by default, or "fake")
+ */
+export function getAdapter(): InstagramAdapter {
+  const name = process.env.IG_BACKEND || 'real';
+  const adapter = adapters[name];
+  if (!adapter) {
+    throw new Error(`Unknown IG_BACKEND "${name}"; expected one of: ${Object.keys(adapters).join(', ')}`);
+  }
+  return adapter;
+}
@@ -0,0 +1,1138 @@
+import { Feed, IgApiClient, IgCheckpointError, IgExactUserNotFoundError, IgLoginRequiredError, IgLoginTwoFactorRequiredError, IgResponseError } from 'instagram-private-api';
+import type {
+  MediaConfigureSidecarOptions,
+  MediaConfigureTimelineOptions,
+  MediaConfigureTimelineVideoOptions,
+  PostingAlbumOptions,
+  PostingPhotoOptions,
+  PostingStoryPhotoOptions,
+  PostingStoryVideoOptions,
+  StoryHashtag,
+  StoryMention
+} from 'instagram-private-api';
+import { State } from 'instagram-private-api/dist/core/state.js';
+import { MediaRepository } from 'instagram-private-api/dist/repositories/media.repository.js';
+import { PublishService } from 'instagram-private-api/dist/services/publish.service.js';
+import type { OptionsWithUrl } from 'request-promise';
+import { randomUUID } from 'crypto';
+import { readFile } from 'fs/promises';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+import { AccountService, SessionService, UserCacheService } from '../core/services/index.js';
+import type { ClientSettings, ConnectionType, ConnectionUser } from '../core/services/index.js';
+import type {
+  AccountInsights,
+  AlbumItemFile,
+  CommentSummary,
+  ConnectionsPage,
+  DirectMessageSummary,
+  DirectTarget,
+  DirectThreadSummary,
+  FeedPage,
+  InstagramAdapter,
+  LocationSummary,
+  LoginResult,
+  PostDetails,
+  ProxyCheckResult,
+  PublishResult,
+  StoryUploadOptions,
+  TrimmedMedia,
+  UserSearchResult,
+  UserTag,
+  VerificationMethod
+} from './types.js';
+
+interface PendingChallenge {
+  ig: IgApiClient;
+  account: string;
+  username: string;
+  type: 'two_factor' | 'checkpoint';
+  method: VerificationMethod;
+  twoFactorIdentifier?: string;
+  expiresAt: number;
+}
+
+// Verification codes are only valid for a few minutes
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+
+// Restored clients, keyed by normalized account handle
+const sessions = new Map<string, IgApiClient>();
+
+// Logins waiting for a verification code, keyed by challenge id
+const challenges = new Map<string, PendingChallenge>();
+
+const SOCKS_PROTOCOLS = ['socks:', 'socks4:', 'socks4a:', 'socks5:', 'socks5h:'];
+
+// How long the proxy self-test waits for an answer
+const PROXY_CHECK_TIMEOUT_MS = 15000;
+
+/**
+ * Client state that can send a fixed user agent instead of the one built
+ * from the device. The override is a private field, so it is never written
+ * into a saved session.
+ */
+class ClientState extends State {
+  #userAgent?: string;
+
+  public pinUserAgent(userAgent: string) {
+    this.#userAgent = userAgent;
+  }
+
+  get appUserAgent(): string {
+    return this.#userAgent ?? super.appUserAgent;
+  }
+}
+
+function createClient(): IgApiClient {
+  const ig = new IgApiClient();
+  ig.state = new ClientState();
+  return ig;
+}
+
+/**
+ * Route a client through a proxy and set its locale, timezone and user agent.
+ * It runs again after a saved state is restored, so the registry wins over
+ * what was saved.
+ */
+function applyClientSettings(ig: IgApiClient, settings?: ClientSettings) {
+  if (!settings) {
+    return;
+  }
+  if (settings.proxy) {
+    // The request library only speaks HTTP proxies; SOCKS goes through an agent
+    if (SOCKS_PROTOCOLS.includes(new URL(settings.proxy).protocol)) {
+      ig.request.defaults.agent = new SocksProxyAgent(settings.proxy);
+    } else {
+      ig.state.proxyUrl = settings.proxy;
+    }
+  }
+  if (settings.locale) {
+    ig.state.language = settings.locale;
+  }
+  if (settings.timezoneOffset !== undefined) {
+    ig.state.timezoneOffset = String(settings.timezoneOffset);
+  }
+  if (settings.userAgent && ig.state instanceof ClientState) {
+    ig.state.pinUserAgent(settings.userAgent);
+  }
+}
+
+/**
+ * A fresh client for an account, with a device derived from its pinned
+ * deviceSeed (or the username) and the proxy, locale, timezone and user
+ * agent from its registry entry
+ */
+function newClient(username: string, account?: string) {
+  const ig = createClient();
+  const config = account ? AccountService.get(account) : undefined;
+  ig.state.generateDevice(config?.deviceSeed || username);
+  applyClientSettings(ig, config);
+  return ig;
+}
+
+/**
+ * Send one request through a client built with the given settings, to check
+ * that the proxy is reachable and passes traffic on. Any HTTP answer from
+ * the target counts as reachable.
+ * @param settings Proxy and client settings, as in the registry
+ * @param targetUrl URL to request through the proxy
+ */
+export async function checkProxy(settings: ClientSettings, targetUrl: string): Promise<ProxyCheckResult> {
+  const ig = createClient();
+  ig.state.generateDevice(settings.deviceSeed || 'proxy-check');
+  applyClientSettings(ig, settings);
+  ig.request.attemptOptions = { ...ig.request.attemptOptions, maxAttempts: 1 };
+  const startedAt = Date.now();
+  const result = { target: targetUrl, userAgent: ig.state.appUserAgent };
+  try {
+    const options: OptionsWithUrl = {
+      url: targetUrl,
+      // An empty base lets the url be absolute
+      baseUrl: '',
+      timeout: PROXY_CHECK_TIMEOUT_MS,
+      // Keep the raw answer; the target need not return Instagram's JSON
+      transform: (body, response) => response
+    };
+    const response = await ig.request.send(options, true);
+    return { ...result, reachable: true, statusCode: response.statusCode, latencyMs: Date.now() - startedAt };
+  } catch (error: any) {
+    if (error instanceof IgResponseError) {
+      return { ...result, reachable: true, statusCode: error.response.statusCode, latencyMs: Date.now() - startedAt };
+    }
+    return { ...result, reachable: false, statusCode: null, latencyMs: Date.now() - startedAt, error: error.message };
+  }
+}
+
+export async function login(username: string, password: string) {
+  console.log(`Logging in to Instagram as ${username}`);
+  try {
+    const ig = newClient(username);
+    await ig.account.login(username, password);
+    console.log('Login successful', username);
+    return ig;
+  } catch (error) {
+    console.error('Login failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Log in and persist the resulting session under an account handle. When
+ * Instagram asks for a two-factor code or raises a checkpoint, the login is
+ * parked and a challenge id is returned for completeChallenge.
+ * @param username Instagram username
+ * @param password Instagram password
+ * @param account Account handle for later calls (defaults to the username)
+ */
+export async function createSession(username: string, password: string, account: string = username): Promise<LoginResult<IgApiClient>> {
+  const handle = SessionService.normalizeAccount(account);
+  console.log(`Logging in to Instagram as ${username}`);
+  const ig = newClient(username, handle);
+
+  try {
+    await ig.account.login(username, password);
+  } catch (error) {
+    if (error instanceof IgLoginTwoFactorRequiredError) {
+      const info = error.response.body.two_factor_info;
+      return parkChallenge({
+        ig,
+        account: handle,
+        username,
+        type: 'two_factor',
+        method: info.totp_two_factor_on ? 'totp' : 'sms',
+        twoFactorIdentifier: info.two_factor_identifier,
+        expiresAt: Date.now() + CHALLENGE_TTL_MS
+      }, info.totp_two_factor_on ? undefined : info.obfuscated_phone_number);
+    }
+    if (error instanceof IgCheckpointError) {
+      // Ask Instagram to send a code through its preferred contact point
+      await ig.challenge.auto(true);
+      const stepData = ig.state.challenge?.step_data;
+      return parkChallenge({
+        ig,
+        account: handle,
+        username,
+        type: 'checkpoint',
+        method: stepData?.choice === '1' || ig.state.challenge?.step_name === 'verify_email' ? 'email' : 'sms',
+        expiresAt: Date.now() + CHALLENGE_TTL_MS
+      }, stepData?.contact_point);
+    }
+    console.error('Login failed:', error);
+    throw error;
+  }
+
+  console.log('Login successful', username);
+  await saveSession(handle, ig, username);
+  return { status: 'logged_in', account: handle, userId: ig.state.cookieUserId, ig };
+}
+
+/**
+ * Submit the verification code for a parked login and store the session
+ * @param challengeId Challenge id returned by createSession
+ * @param code Code received by SMS or email, or generated by an authenticator app
+ */
+export async function completeChallenge(challengeId: string, code: string): Promise<LoginResult<IgApiClient>> {
+  const challenge = challenges.get(challengeId);
+  if (!challenge || challenge.expiresAt <= Date.now()) {
+    challenges.delete(challengeId);
+    throw new Error(`Unknown or expired challenge: ${challengeId}. Call instagram_login again.`);
+  }
+
+  const { ig, account, username } = challenge;
+  if (challenge.type === 'two_factor') {
+    await ig.account.twoFactorLogin({
+      username,
+      verificationCode: code,
+      twoFactorIdentifier: challenge.twoFactorIdentifier as string,
+      verificationMethod: challenge.method === 'totp' ? '0' : '1',
+      trustThisDevice: '1'
+    });
+  } else {
+    const response = await ig.challenge.sendSecurityCode(code);
+    if (!response.logged_in_user && response.action !== 'close') {
+      throw new Error(`Checkpoint not cleared (step: ${response.step_name})`);
+    }
+  }
+
+  challenges.delete(challengeId);
+  await saveSession(account, ig, username);
+  return { status: 'logged_in', account, userId: ig.state.cookieUserId, ig };
+}
+
+function parkChallenge(challenge: PendingChallenge, contactPoint?: string): LoginResult<IgApiClient> {
+  const challengeId = randomUUID();
+  challenges.set(challengeId, challenge);
+  console.log(`Instagram requires ${challenge.type} verification for ${challenge.username}`);
+  return {
+    status: 'needs_verification',
+    account: challenge.account,
+    challengeId,
+    type: challenge.type,
+    method: challenge.method,
+    contactPoint
+  };
+}
+
+async function saveSession(account: string, ig: IgApiClient, username: string) {
+  const { constants, ...state } = await ig.state.serialize();
+  await SessionService.save({
+    account,
+    username,
+    state,
+    savedAt: new Date().toISOString()
+  });
+  sessions.set(account, ig);
+}
+
+function isSessionExpired(ig: IgApiClient): boolean {
+  const cookie = ig.state.extractCookie('sessionid');
+  return !cookie || cookie.expiryTime() <= Date.now();
+}
+
+/**
+ * Get a logged-in client for an account handle, restoring it from the
+ * session store and refreshing it when the session cookie has expired
+ * @param account Account handle passed to createSession
+ */
+export async function getSession(account: string) {
+  const handle = SessionService.normalizeAccount(account);
+  const cached = sessions.get(handle);
+  if (cached && !isSessionExpired(cached)) {
+    return cached;
+  }
+
+  const record = await SessionService.load(handle);
+  if (!record) {
+    return await sessionFromRegistry(handle);
+  }
+
+  const ig = newClient(record.username, handle);
+  await ig.state.deserialize(record.state);
+  applyClientSettings(ig, AccountService.get(handle));
+  if (isSessionExpired(ig)) {
+    return await refreshSession(handle);
+  }
+  sessions.set(handle, ig);
+  return ig;
+}
+
+/**
+ * Start the first session for an account from the registry, using its
+ * session file while that is still valid and its credentials otherwise
+ * @param handle Normalized account name
+ */
+async function sessionFromRegistry(handle: string) {
+  const config = AccountService.get(handle);
+  if (!config) {
+    throw new Error(`No session found for account "${handle}". Call instagram_login first.`);
+  }
+  const password = AccountService.getPassword(config);
+
+  if (config.sessionFile) {
+    const { constants, ...state } = JSON.parse(await readFile(config.sessionFile, 'utf8'));
+    const ig = newClient(config.username || handle, handle);
+    await ig.state.deserialize(state);
+    applyClientSettings(ig, config);
+    if (!isSessionExpired(ig)) {
+      const username = config.username || ig.state.cookieUsername;
+      await SessionService.save({ account: handle, username, state, savedAt: new Date().toISOString() });
+      sessions.set(handle, ig);
+      return ig;
+    }
+    if (!config.username || !password) {
+      throw new Error(`Session file for account "${handle}" has expired and no password is configured`);
+    }
+  }
+  return await loginOrExplain(config.username as string, password as string, handle);
+}
+
+async function loginOrExplain(username: string, password: string, handle: string) {
+  const result = await createSession(username, password, handle);
+  if (result.status !== 'logged_in') {
+    throw new Error(`Instagram requires ${result.method} verification for "${handle}". Call instagram_verify_login with challenge ${result.challengeId}.`);
+  }
+  return result.ig;
+}
+
+/**
+ * Log in again with the account registry's credentials and replace the
+ * saved session. Sessions stored by instagram_login alone keep no password,
+ * so those need instagram_login again.
+ * @param account Account handle passed to createSession
+ */
+export async function refreshSession(account: string) {
+  const handle = SessionService.normalizeAccount(account);
+  const config = AccountService.get(handle);
+  const password = config ? AccountService.getPassword(config) : undefined;
+  const username = config?.username ?? (await SessionService.load(handle))?.username;
+  if (!username || !password) {
+    throw new Error(`Session for account "${handle}" has expired. Call instagram_login again.`);
+  }
+  console.log(`Refreshing Instagram session for ${handle}`);
+  sessions.delete(handle);
+  return await loginOrExplain(username, password, handle);
+}
+
+/**
+ * Run an operation with an account's client, refreshing the session once
+ * if Instagram reports that the login is no longer valid
+ */
+export async function withSession<T>(account: string, operation: (ig: IgApiClient) => Promise<T>): Promise<T> {
+  const ig = await getSession(account);
+  try {
+    return await operation(ig);
+  } catch (error) {
+    if (!(error instanceof IgLoginRequiredError)) {
+      throw error;
+    }
+    return await operation(await refreshSession(account));
+  }
+}
+
+/**
+ * Instagram username an account's stored session is logged in as
+ * @param account Account handle passed to createSession
+ * @returns The username, or null when the account has no stored session
+ */
+export async function getSessionUsername(account: string) {
+  const record = await SessionService.load(SessionService.normalizeAccount(account));
+  return record?.username ?? null;
+}
+
+/**
+ * Log out of an account and delete its stored session
+ * @param account Account handle passed to createSession
+ */
+export async function destroySession(account: string) {
+  const handle = SessionService.normalizeAccount(account);
+  const ig = sessions.get(handle);
+  if (ig) {
+    try {
+      await ig.account.logout();
+    } catch (error) {
+      console.warn(`Logout request failed for ${handle}:`, error);
+    }
+    sessions.delete(handle);
+  }
+  return await SessionService.remove(handle);
+}
+
+const SHORTCODE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Shortcode used in post URLs for a media id ("pk" or "pk_userid")
+ */
+export function mediaIdToShortcode(mediaId: string): string {
+  let pk = BigInt(mediaId.split('_')[0]);
+  let code = '';
+  do {
+    code = SHORTCODE_ALPHABET[Number(pk % BigInt(64))] + code;
+    pk /= BigInt(64);
+  } while (pk > BigInt(0));
+  return code;
+}
+
+/**
+ * Turn a media id, shortcode or post URL into a media id the API accepts
+ * @param media e.g. "3141592653589793238_25025320", "CuXo1AbCdEf" or "https://www.instagram.com/p/CuXo1AbCdEf/"
+ */
+export function parseMediaReference(media: string): string {
+  const value = media.trim();
+  if (/^\d+(_\d+)?$/.test(value)) {
+    return value;
+  }
+  const code = value.match(/instagram\.com\/(?:[\w.]+\/)?(?:p|reel|reels|tv)\/([A-Za-z0-9_-]+)/)?.[1] ?? value;
+  if (!/^[A-Za-z0-9_-]+$/.test(code)) {
+    throw new Error(`Not a media id, shortcode or post URL: ${media}`);
+  }
+  let pk = BigInt(0);
+  for (const char of code) {
+    pk = pk * BigInt(64) + BigInt(SHORTCODE_ALPHABET.indexOf(char));
+  }
+  return pk.toString();
+}
+
+function toPublishResult(media: { id: string | number; code: string }): PublishResult {
+  return { mediaId: String(media.id), code: media.code };
+}
+
+/**
+ * Check that every tag sits inside the frame, before anything is uploaded
+ */
+export function checkUsertags(usertags: UserTag[] = []) {
+  const outside = usertags.find(tag => !(tag.x >= 0 && tag.x <= 1 && tag.y >= 0 && tag.y <= 1));
+  if (outside) {
+    throw new Error(`Tag position for @${outside.username} must be between 0 and 1, got x=${outside.x}, y=${outside.y}`);
+  }
+}
+
+async function resolveUsertags(ig: IgApiClient, usertags: UserTag[] = []): Promise<PostingPhotoOptions['usertags']> {
+  if (usertags.length === 0) {
+    return undefined;
+  }
+  const tags = [];
+  for (const tag of usertags) {
+    try {
+      tags.push({ user_id: await resolveUserId(ig, tag.username), position: [tag.x, tag.y] as [number, number] });
+    } catch (error: any) {
+      throw new Error(`Cannot tag @${tag.username.replace(/^@/, '')}: ${error.message}`);
+    }
+  }
+  return { in: tags };
+}
+
+/**
+ * Turn a location id or place name into what the configure request expects
+ */
+async function resolveLocation(ig: IgApiClient, location?: string): Promise<PostingPhotoOptions['location']> {
+  if (!location) {
+    return undefined;
+  }
+  const value = location.trim();
+  if (/^\d+$/.test(value)) {
+    const { location: info } = await ig.location.info(value);
+    return {
+      name: info.name,
+      lat: info.lat,
+      lng: info.lng,
+      address: info.address,
+      external_id_source: 'facebook_places',
+      external_id: String(info.facebook_places_id)
+    };
+  }
+  const [match] = await searchLocations(ig, value);
+  if (!match) {
+    throw new Error(`No location found for "${value}"`);
+  }
+  return {
+    name: match.name,
+    lat: match.lat,
+    lng: match.lng,
+    address: match.address,
+    external_id_source: match.external_id_source,
+    external_id: match.external_id
+  };
+}
+
+// Alt text, which Instagram takes on the configure request of a post or of each carousel child
+interface AltTextField {
+  custom_accessibility_caption?: string;
+}
+
+/**
+ * Media repository whose configure requests carry alt text. ig.publish only
+ * forwards a fixed set of fields to them, so publishing goes through a
+ * PublishService built on a client that uses this repository instead.
+ */
+class AltTextMediaRepository extends MediaRepository {
+  constructor(client: IgApiClient, private readonly altText: { post?: string; children?: (string | undefined)[] }) {
+    super(client);
+  }
+
+  configure(options: MediaConfigureTimelineOptions) {
+    const withAltText: MediaConfigureTimelineOptions & AltTextField = { ...options, ...this.postField() };
+    return super.configure(withAltText);
+  }
+
+  configureVideo(options: MediaConfigureTimelineVideoOptions) {
+    const withAltText: MediaConfigureTimelineVideoOptions & AltTextField = { ...options, ...this.postField() };
+    return super.configureVideo(withAltText);
+  }
+
+  configureSidecar(options: MediaConfigureSidecarOptions) {
+    const children = this.altText.children ?? [];
+    return super.configureSidecar({
+      ...options,
+      children_metadata: options.children_metadata.map((child, index) => {
+        const withAltText: typeof child & AltTextField = children[index] ? { ...child, custom_accessibility_caption: children[index] } : child;
+        return withAltText;
+      })
+    });
+  }
+
+  private postField(): AltTextField {
+    return this.altText.post ? { custom_accessibility_caption: this.altText.post } : {};
+  }
+}
+
+/**
+ * ig.publish, or a publish service that adds alt text when there is any.
+ * The client is left untouched: the service gets a view of it with its own
+ * media repository.
+ */
+function publisher(ig: IgApiClient, altText: { post?: string; children?: (string | undefined)[] }): PublishService {
+  if (!altText.post && !altText.children?.some(Boolean)) {
+    return ig.publish;
+  }
+  const client: IgApiClient = Object.create(ig);
+  client.media = new AltTextMediaRepository(ig, altText);
+  return new PublishService(client);
+}
+
+export async function uploadPhoto(ig: IgApiClient, filePath: string, caption?: string, details: PostDetails = {}) {
+  checkUsertags(details.usertags);
+  const file = await readFile(filePath);
+  const usertags = await resolveUsertags(ig, details.usertags);
+  const location = await resolveLocation(ig, details.location);
+  const result = await publisher(ig, { post: details.altText }).photo({ file, caption, usertags, location });
+  console.log('Photo uploaded successfully:', result);
+  return toPublishResult(result.media);
+}
+
+export async function uploadVideo(ig: IgApiClient, filePath: string, coverImagePath: string, caption?: string, details: PostDetails = {}) {
+  checkUsertags(details.usertags);
+  const video = await readFile(filePath);
+  const coverImage = await readFile(coverImagePath);
+  const usertags = await resolveUsertags(ig, details.usertags);
+  const location = await resolveLocation(ig, details.location);
+  const result = await publisher(ig, { post: details.altText }).video({ video, coverImage, caption, usertags, location });
+  console.log('Video uploaded successfully:', result);
+  return toPublishResult(result.media);
+}
+
+export async function uploadAlbum(ig: IgApiClient, items: AlbumItemFile[], caption?: string, location?: string) {
+  items.forEach(item => checkUsertags(item.usertags));
+  const albumItems: PostingAlbumOptions['items'] = [];
+  for (const item of items) {
+    const usertags = await resolveUsertags(ig, item.usertags);
+    if (item.type === 'video') {
+      albumItems.push({
+        video: await readFile(item.filePath),
+        coverImage: await readFile(item.coverImagePath),
+        usertags
+      });
+    } else {
+      albumItems.push({ file: await readFile(item.filePath), usertags });
+    }
+  }
+  const postingLocation = await resolveLocation(ig, location);
+  // Alt text goes on each child of the sidecar, in item order
+  const result = await publisher(ig, { children: items.map(item => item.altText) })
+    .album({ items: albumItems, caption, location: postingLocation });
+  console.log('Carousel uploaded successfully:', result);
+  return toPublishResult(result.media);
+}
+
+/**
+ * Publish a photo story, or a video story when a cover image is given.
+ * Mentions are resolved to user ids and stacked as stickers down the frame.
+ */
+export async function uploadStory(ig: IgApiClient, options: StoryUploadOptions) {
+  const stickerY = (index: number) => Math.min(0.15 + index * 0.1, 0.9);
+
+  const mentions: StoryMention[] = [];
+  for (const username of options.mentions || []) {
+    mentions.push({
+      user_id: await resolveUserId(ig, username),
+      x: 0.5,
+      y: stickerY(mentions.length),
+      width: 0.6,
+      height: 0.08,
+      rotation: 0
+    });
+  }
+  const hashtags: StoryHashtag[] = (options.hashtags || []).map((tag, index) => ({
+    tag_name: tag.replace(/^#/, ''),
+    use_custom_title: false,
+    is_sticker: true,
+    x: 0.5,
+    y: stickerY(mentions.length + index),
+    width: 0.6,
+    height: 0.08,
+    rotation: 0
+  }));
+
+  const storyOptions = {
+    link: options.link,
+    mentions: mentions.length > 0 ? mentions : undefined,
+    hashtags: hashtags.length > 0 ? hashtags : undefined
+  };
+  const result = options.coverImagePath
+    ? await ig.publish.story({
+        ...storyOptions,
+        video: await readFile(options.filePath),
+        coverImage: await readFile(options.coverImagePath)
+      } as PostingStoryVideoOptions)
+    : await ig.publish.story({
+        ...storyOptions,
+        file: await readFile(options.filePath)
+      } as PostingStoryPhotoOptions);
+  console.log('Story uploaded successfully:', result);
+  return toPublishResult(result.media);
+}
+
+/**
+ * Publish a video as a Reel. The private API library has no clips support,
+ * so this uploads the parts itself and calls configure_to_clips directly.
+ */
+export async function uploadReel(ig: IgApiClient, filePath: string, coverImagePath: string, caption?: string, shareToFeed: boolean = true) {
+  const video = await readFile(filePath);
+  const coverImage = await readFile(coverImagePath);
+  const videoInfo = PublishService.getVideoInfo(video);
+  const uploadId = Date.now().toString();
+  const length = videoInfo.duration / 1000.0;
+
+  await ig.upload.video({ video, uploadId, ...videoInfo });
+  await ig.upload.photo({ file: coverImage, uploadId });
+
+  // Instagram answers with an error until it has finished transcoding
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await ig.media.uploadFinish({ upload_id: uploadId, source_type: '4', video: { length } });
+      const { body } = await ig.request.send({
+        url: '/api/v1/media/configure_to_clips/',
+        method: 'POST',
+        qs: { video: '1' },
+        form: ig.request.sign({
+          upload_id: uploadId,
+          caption: caption || '',
+          length,
+          clips_share_preview_to_feed: shareToFeed ? '1' : '0',
+          source_type: '4',
+          audio_muted: false,
+          poster_frame_index: 0,
+          timezone_offset: ig.state.timezoneOffset,
+          _csrftoken: ig.state.cookieCsrfToken,
+          _uid: ig.state.cookieUserId,
+          _uuid: ig.state.uuid,
+          device_id: ig.state.deviceId,
+          device: ig.state.devicePayload
+        })
+      });
+      console.log('Reel uploaded successfully:', body);
+      return toPublishResult(body.media);
+    } catch (error) {
+      if (!(error instanceof IgResponseError) || attempt >= 5) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, attempt * 2000));
+    }
+  }
+}
+
+/**
+ * Resolve a username to a user id through the local cache, falling back to
+ * an exact search. Numeric input is treated as an id already.
+ * @param user Username (with or without a leading @) or numeric user id
+ */
+export async function resolveUserId(ig: IgApiClient, user: string): Promise<string> {
+  const value = user.trim().replace(/^@/, '');
+  if (/^\d+$/.test(value)) {
+    return value;
+  }
+  const cached = UserCacheService.get(value);
+  if (cached) {
+    return cached;
+  }
+  try {
+    const match = await ig.user.searchExact(value);
+    UserCacheService.set([match]);
+    return String(match.pk);
+  } catch (error) {
+    if (error instanceof IgExactUserNotFoundError) {
+      throw new Error(`Instagram user not found: ${value}`);
+    }
+    throw error;
+  }
+}
+
+export async function searchUsers(ig: IgApiClient, query: string, limit: number = 10): Promise<UserSearchResult[]> {
+  const { users } = await ig.user.search(query);
+  UserCacheService.set(users);
+  return users.slice(0, limit).map((user, index) => ({
+    rank: index + 1,
+    pk: String(user.pk),
+    username: user.username,
+    full_name: user.full_name,
+    is_verified: user.is_verified,
+    is_private: user.is_private
+  }));
+}
+
+/**
+ * The logged-in account, which doubles as a cheap check that a session works
+ */
+export async function getCurrentUser(ig: IgApiClient) {
+  const user = await ig.account.currentUser();
+  return { pk: String(user.pk), username: user.username };
+}
+
+export async function getProfile(ig: IgApiClient, user: string) {
+  return await ig.user.info(await resolveUserId(ig, user));
+}
+
+/**
+ * Headline numbers from the account insights dashboard
+ */
+export async function getAccountInsights(ig: IgApiClient): Promise<AccountInsights> {
+  const { data } = await ig.insights.account({});
+  const unit = data?.user?.business_manager?.account_insights_unit;
+  if (!unit) {
+    throw new Error('Insights are only available for business and creator accounts');
+  }
+  return {
+    userId: data.user.instagram_user_id,
+    username: data.user.username,
+    followers_count: data.user.followers_count,
+    impressions: { count: unit.impressions_metric_count, delta: unit.impressions_metric_delta },
+    reach: { count: unit.reach_metric_count, delta: unit.reach_metric_delta },
+    profile_visits: { count: unit.profile_visits_metric_count, delta: unit.profile_visits_metric_delta },
+    website_visits: { count: unit.website_visits_metric_count, delta: unit.website_visits_metric_delta },
+    last_week_impressions: unit.last_week_impressions
+  };
+}
+
+export async function getMediaInfo(ig: IgApiClient, mediaId: string) {
+  const { items } = await ig.media.info(mediaId);
+  if (!items?.length) {
+    throw new Error(`Media not found: ${mediaId}`);
+  }
+  return items[0];
+}
+
+export async function editCaption(ig: IgApiClient, mediaId: string, caption: string) {
+  return await ig.media.editMedia({ mediaId, captionText: caption });
+}
+
+/**
+ * Hide a post from everyone but its owner, or restore it
+ */
+export async function setArchived(ig: IgApiClient, mediaId: string, archived: boolean) {
+  return archived ? await ig.media.onlyMe(mediaId) : await ig.media.undoOnlyMe(mediaId);
+}
+
+export async function deleteMedia(ig: IgApiClient, mediaId: string) {
+  // The delete endpoint needs to know what kind of post it is removing
+  const item = await getMediaInfo(ig, mediaId);
+  const mediaType = item.media_type === 2 ? 'VIDEO' : item.media_type === 8 ? 'CAROUSEL' : 'PHOTO';
+  return await ig.media.delete({ mediaId: item.id, mediaType });
+}
+
+/**
+ * Profile reduced to the public fields most callers need
+ */
+export function trimProfile(user: any) {
+  return {
+    pk: String(user.pk),
+    username: user.username,
+    full_name: user.full_name,
+    biography: user.biography ?? '',
+    external_url: user.external_url ?? null,
+    follower_count: user.follower_count ?? 0,
+    following_count: user.following_count ?? 0,
+    media_count: user.media_count ?? 0,
+    is_private: Boolean(user.is_private),
+    is_verified: Boolean(user.is_verified),
+    is_business: Boolean(user.is_business),
+    profile_pic_url: user.profile_pic_url ?? null
+  };
+}
+
+interface FeedCursor {
+  kind: string;
+  state: string;
+  offset: number;
+}
+
+// Stop a single call from walking an unbounded number of pages
+const MAX_PAGES_PER_CALL = 10;
+
+function encodeCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, kind: string): FeedCursor {
+  let decoded: FeedCursor;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+  if (decoded.kind !== kind) {
+    throw new Error(`Cursor belongs to a different feed (${decoded.kind})`);
+  }
+  return decoded;
+}
+
+/**
+ * Read up to `limit` items from a feed, starting where `cursor` left off.
+ * A cursor holds the feed state from before its page was requested plus an
+ * offset into that page, so items beyond the limit are not skipped.
+ * @param feed A freshly created feed
+ * @param kind Identifies the feed, so a cursor cannot be replayed against another one
+ * @param limit Maximum number of items to return
+ * @param cursor nextCursor from a previous page
+ */
+export async function readFeedPage<T>(feed: Feed<any, T>, kind: string, limit: number, cursor?: string): Promise<FeedPage<T>> {
+  let offset = 0;
+  if (cursor) {
+    const decoded = decodeCursor(cursor, kind);
+    feed.deserialize(decoded.state);
+    offset = decoded.offset;
+  }
+
+  const items: T[] = [];
+  for (let page = 0; page < MAX_PAGES_PER_CALL; page++) {
+    const state = feed.serialize();
+    const pageItems = await feed.items();
+    const taken = pageItems.slice(offset, offset + limit - items.length);
+    items.push(...taken);
+
+    if (offset + taken.length < pageItems.length) {
+      return { items, nextCursor: encodeCursor({ kind, state, offset: offset + taken.length }) };
+    }
+    offset = 0;
+    if (!feed.isMoreAvailable()) {
+      return { items, nextCursor: null };
+    }
+    if (items.length >= limit) {
+      break;
+    }
+  }
+  return { items, nextCursor: encodeCursor({ kind, state: feed.serialize(), offset: 0 }) };
+}
+
+export function trimMedia(item: any): TrimmedMedia {
+  const mediaUrls = (media: any): string[] => {
+    if (media.carousel_media) {
+      return media.carousel_media.flatMap(mediaUrls);
+    }
+    if (media.video_versions?.length) {
+      return [media.video_versions[0].url];
+    }
+    return media.image_versions2?.candidates?.length ? [media.image_versions2.candidates[0].url] : [];
+  };
+
+  return {
+    id: item.id,
+    code: item.code,
+    media_type: item.media_type,
+    caption: item.caption?.text ?? null,
+    like_count: item.like_count ?? 0,
+    comment_count: item.comment_count ?? 0,
+    taken_at: item.taken_at,
+    media_urls: mediaUrls(item)
+  };
+}
+
+/**
+ * Search places by name, or venues near a point when coordinates are given.
+ * Only name searches return the pk that location feeds need.
+ */
+export async function searchLocations(ig: IgApiClient, query: string, coordinates?: { latitude: number; longitude: number }): Promise<LocationSummary[]> {
+  if (coordinates) {
+    const venues = await ig.search.location(coordinates.latitude, coordinates.longitude, query);
+    return venues.map(venue => ({
+      pk: null,
+      name: venue.name,
+      address: venue.address,
+      lat: venue.lat,
+      lng: venue.lng,
+      external_id: venue.external_id,
+      external_id_source: venue.external_id_source
+    }));
+  }
+  const places = await ig.search.places(query);
+  return places.map(({ location }) => ({
+    pk: String(location.pk),
+    name: location.name,
+    address: location.address,
+    lat: location.lat,
+    lng: location.lng,
+    external_id: String(location.facebook_places_id),
+    external_id_source: 'facebook_places'
+  }));
+}
+
+export async function getHashtagFeedPage(ig: IgApiClient, tag: string, section: 'top' | 'recent', limit: number = 10, cursor?: string): Promise<FeedPage<TrimmedMedia>> {
+  const name = tag.trim().replace(/^#/, '').toLowerCase();
+  const page = await readFeedPage(ig.feed.tags(name, section), `tag:${name}:${section}`, limit, cursor);
+  // Non-grid sections come back as undefined entries
+  return { items: page.items.filter(Boolean).map(trimMedia), nextCursor: page.nextCursor };
+}
+
+export async function getLocationFeedPage(ig: IgApiClient, locationId: string, section: 'recent' | 'ranked', limit: number = 10, cursor?: string): Promise<FeedPage<TrimmedMedia>> {
+  const page = await readFeedPage(ig.feed.location(locationId, section), `location:${locationId}:${section}`, limit, cursor);
+  return { items: page.items.filter(Boolean).map(trimMedia), nextCursor: page.nextCursor };
+}
+
+export async function getTimelinePage(ig: IgApiClient, limit: number = 10, cursor?: string) {
+  return await readFeedPage(ig.feed.timeline(), 'timeline', limit, cursor);
+}
+
+export async function getUserFeedPage(ig: IgApiClient, user: string, limit: number = 10, cursor?: string) {
+  const userId = await resolveUserId(ig, user);
+  return await readFeedPage(ig.feed.user(userId), `user:${userId}`, limit, cursor);
+}
+
+export async function getSavedFeedPage(ig: IgApiClient, limit: number = 10, cursor?: string) {
+  return await readFeedPage(ig.feed.saved(), 'saved', limit, cursor);
+}
+
+/**
+ * Read a page of an account's followers or followings
+ * @param user Username or numeric user id
+ * @param type Which list to read
+ */
+export async function getConnectionsPage(ig: IgApiClient, user: string, type: ConnectionType, limit: number = 50, cursor?: string): Promise<ConnectionsPage> {
+  const userId = await resolveUserId(ig, user);
+  const feed = type === 'followers' ? ig.feed.accountFollowers(userId) : ig.feed.accountFollowing(userId);
+  const page = await readFeedPage<any>(feed, `${type}:${userId}`, limit, cursor);
+  const items: ConnectionUser[] = page.items.map(item => ({
+    pk: String(item.pk),
+    username: item.username,
+    full_name: item.full_name,
+    is_private: item.is_private,
+    is_verified: item.is_verified
+  }));
+  return { userId, items, nextCursor: page.nextCursor };
+}
+
+export async function getCommentsPage(ig: IgApiClient, mediaId: string, limit: number = 20, cursor?: string): Promise<FeedPage<CommentSummary>> {
+  const page = await readFeedPage(ig.feed.mediaComments(mediaId), `comments:${mediaId}`, limit, cursor);
+  return {
+    items: page.items.map(comment => ({
+      pk: String(comment.pk),
+      text: comment.text,
+      created_at: comment.created_at,
+      user: { pk: String(comment.user.pk), username: comment.user.username },
+      like_count: comment.comment_like_count ?? 0,
+      child_comment_count: comment.child_comment_count ?? 0
+    })),
+    nextCursor: page.nextCursor
+  };
+}
+
+export async function replyToComment(ig: IgApiClient, mediaId: string, commentId: string, text: string) {
+  return await ig.media.comment({ mediaId, text, replyToCommentId: commentId });
+}
+
+export async function likeComment(ig: IgApiClient, commentId: string) {
+  return await ig.media.likeComment(commentId);
+}
+
+export async function deleteComments(ig: IgApiClient, mediaId: string, commentIds: string[]) {
+  return await ig.media.commentsBulkDelete(mediaId, commentIds);
+}
+
+export async function setCommentsEnabled(ig: IgApiClient, mediaId: string, enabled: boolean) {
+  return enabled ? await ig.media.commentsEnable(mediaId) : await ig.media.commentsDisable(mediaId);
+}
+
+function summarizeMessage(item: any): DirectMessageSummary {
+  return {
+    item_id: String(item.item_id),
+    user_id: String(item.user_id),
+    timestamp: String(item.timestamp),
+    item_type: item.item_type,
+    text: item.text ?? item.link?.text ?? null,
+    media_url: item.media?.image_versions2?.candidates?.[0]?.url ?? item.media?.video_versions?.[0]?.url ?? null
+  };
+}
+
+function summarizeThread(thread: any): DirectThreadSummary {
+  // Messages from other participants newer than the viewer's last seen marker
+  const seenAt = Number(thread.last_seen_at?.[thread.viewer_id]?.timestamp ?? 0);
+  const unreadCount = (thread.items || [])
+    .filter((item: any) => String(item.user_id) !== String(thread.viewer_id) && Number(item.timestamp) > seenAt)
+    .length;
+
+  return {
+    thread_id: thread.thread_id,
+    title: thread.thread_title,
+    users: (thread.users || []).map((user: any) => ({ pk: String(user.pk), username: user.username })),
+    last_activity_at: String(thread.last_activity_at),
+    unread_count: unreadCount,
+    pending: Boolean(thread.pending),
+    last_message: thread.items?.length ? summarizeMessage(thread.items[0]) : null
+  };
+}
+
+export async function getInboxPage(ig: IgApiClient, limit: number = 20, cursor?: string): Promise<FeedPage<DirectThreadSummary>> {
+  const page = await readFeedPage(ig.feed.directInbox(), 'direct_inbox', limit, cursor);
+  return { items: page.items.map(summarizeThread), nextCursor: page.nextCursor };
+}
+
+export async function getPendingInboxPage(ig: IgApiClient, limit: number = 20, cursor?: string): Promise<FeedPage<DirectThreadSummary>> {
+  const page = await readFeedPage(ig.feed.directPending(), 'direct_pending', limit, cursor);
+  return { items: page.items.map(summarizeThread), nextCursor: page.nextCursor };
+}
+
+/**
+ * Read a page of a thread's messages, newest first
+ */
+export async function getThreadMessagesPage(ig: IgApiClient, threadId: string, limit: number = 20, cursor?: string): Promise<FeedPage<DirectMessageSummary>> {
+  const feed = ig.feed.directThread({ thread_id: threadId, oldest_cursor: '' });
+  const page = await readFeedPage(feed, `direct_thread:${threadId}`, limit, cursor);
+  return { items: page.items.map(summarizeMessage), nextCursor: page.nextCursor };
+}
+
+/**
+ * Address an existing thread by id, or a one-to-one thread by recipient
+ * @param target Either a thread id or a recipient username or user id
+ */
+async function directThreadFor(ig: IgApiClient, target: DirectTarget) {
+  if (target.threadId) {
+    return ig.entity.directThread(target.threadId);
+  }
+  if (target.recipient) {
+    return ig.entity.directThread([await resolveUserId(ig, target.recipient)]);
+  }
+  throw new Error('Provide a threadId or a recipient');
+}
+
+export async function sendDirectText(ig: IgApiClient, target: DirectTarget, text: string) {
+  const thread = await directThreadFor(ig, target);
+  return await thread.broadcastText(text);
+}
+
+export async function sendDirectPhoto(ig: IgApiClient, target: DirectTarget, filePath: string) {
+  const thread = await directThreadFor(ig, target);
+  return await thread.broadcastPhoto({ file: await readFile(filePath) });
+}
+
+export async function respondToMessageRequest(ig: IgApiClient, threadId: string, approve: boolean) {
+  return approve ? await ig.directThread.approve(threadId) : await ig.directThread.decline(threadId);
+}
+
+export const realAdapter: InstagramAdapter = {
+  name: 'real',
+  login,
+  createSession,
+  completeChallenge,
+  withSession,
+  destroySession,
+  getSessionUsername,
+  checkProxy,
+  uploadPhoto,
+  uploadVideo,
+  uploadAlbum,
+  uploadStory,
+  uploadReel,
+  getCurrentUser,
+  resolveUserId,
+  searchUsers,
+  getProfile,
+  getConnectionsPage,
+  getAccountInsights,
+  getMediaInfo,
+  editCaption,
+  setArchived,
+  deleteMedia,
+  getTimelinePage,
+  getUserFeedPage,
+  getSavedFeedPage,
+  getHashtagFeedPage,
+  searchLocations,
+  getLocationFeedPage,
+  getCommentsPage,
+  replyToComment,
+  likeComment,
+  deleteComments,
+  setCommentsEnabled,
+  getInboxPage,
+  getPendingInboxPage,
+  getThreadMessagesPage,
+  sendDirectText,
+  sendDirectPhoto,
+  respondToMessageRequest
+};
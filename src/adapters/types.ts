@@ -0,0 +1,229 @@
+import type { ClientSettings, ConnectionType, ConnectionUser } from '../core/services/index.js';
+
+/**
+ * A logged-in session handle. Only the adapter that created it knows what is
+ * inside (an IgApiClient for the real backend).
+ */
+export type InstagramClient = object;
+
+export type VerificationMethod = 'sms' | 'email' | 'totp';
+
+export type LoginResult<C extends InstagramClient = InstagramClient> =
+  | { status: 'logged_in'; account: string; userId: string; ig: C }
+  | {
+      status: 'needs_verification';
+      account: string;
+      challengeId: string;
+      type: 'two_factor' | 'checkpoint';
+      method: VerificationMethod;
+      contactPoint?: string;
+    };
+
+/**
+ * A person tagged on a photo or video, positioned as a fraction of its width
+ * and height from the top-left corner
+ */
+export interface UserTag {
+  username: string;
+  x: number;
+  y: number;
+}
+
+// Optional extras for photo and video posts
+export interface PostDetails {
+  usertags?: UserTag[];
+  // Location id, or a place name whose top search result is used
+  location?: string;
+  altText?: string;
+}
+
+// Carousel items carry their own tags and alt text; the location is per post
+export type AlbumItemFile = (
+  | { type: 'photo'; filePath: string }
+  | { type: 'video'; filePath: string; coverImagePath: string }
+) & Omit<PostDetails, 'location'>;
+
+export interface StoryUploadOptions {
+  filePath: string;
+  coverImagePath?: string;
+  link?: string;
+  mentions?: string[];
+  hashtags?: string[];
+}
+
+/**
+ * What every upload returns, so follow-up calls can address the new post
+ */
+export interface PublishResult {
+  mediaId: string;
+  code: string;
+}
+
+export interface UserSearchResult {
+  rank: number;
+  pk: string;
+  username: string;
+  full_name: string;
+  is_verified: boolean;
+  is_private: boolean;
+}
+
+export interface FeedPage<T = any> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+/**
+ * Media item reduced to the fields most callers need
+ */
+export interface TrimmedMedia {
+  id: string;
+  code: string;
+  media_type: number;
+  caption: string | null;
+  like_count: number;
+  comment_count: number;
+  taken_at: number;
+  media_urls: string[];
+}
+
+export interface MetricWithDelta {
+  count: number;
+  delta: number;
+}
+
+/**
+ * Account-level insights, only available to business and creator accounts
+ */
+export interface AccountInsights {
+  userId: string;
+  username: string;
+  followers_count: number;
+  impressions: MetricWithDelta;
+  reach: MetricWithDelta;
+  profile_visits: MetricWithDelta;
+  website_visits: MetricWithDelta;
+  last_week_impressions: number;
+}
+
+export interface LocationSummary {
+  pk: string | null;
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+  external_id: string;
+  external_id_source: string;
+}
+
+export interface ConnectionsPage extends FeedPage<ConnectionUser> {
+  userId: string;
+}
+
+export interface CommentSummary {
+  pk: string;
+  text: string;
+  created_at: number;
+  user: { pk: string; username: string };
+  like_count: number;
+  child_comment_count: number;
+}
+
+export interface DirectMessageSummary {
+  item_id: string;
+  user_id: string;
+  timestamp: string;
+  item_type: string;
+  text: string | null;
+  media_url: string | null;
+}
+
+export interface DirectThreadSummary {
+  thread_id: string;
+  title: string;
+  users: { pk: string; username: string }[];
+  last_activity_at: string;
+  unread_count: number;
+  pending: boolean;
+  last_message: DirectMessageSummary | null;
+}
+
+// Either an existing thread id, or a recipient username or user id
+export interface DirectTarget {
+  threadId?: string;
+  recipient?: string;
+}
+
+export interface ProxyCheckResult {
+  reachable: boolean;
+  target: string;
+  // Status of the target's answer, when one came back
+  statusCode: number | null;
+  latencyMs: number;
+  userAgent: string;
+  error?: string;
+}
+
+/**
+ * Everything the tools need from Instagram. Feed items (timeline, user and
+ * saved feeds), media info and profiles are passed through in the private
+ * API's raw shape.
+ */
+export interface InstagramAdapter {
+  readonly name: string;
+
+  // Sessions
+  login(username: string, password: string): Promise<InstagramClient>;
+  createSession(username: string, password: string, account?: string): Promise<LoginResult>;
+  completeChallenge(challengeId: string, code: string): Promise<LoginResult>;
+  withSession<T>(account: string, operation: (ig: InstagramClient) => Promise<T>): Promise<T>;
+  destroySession(account: string): Promise<boolean>;
+  // Instagram username of the account's stored session, or null when it has none
+  getSessionUsername(account: string): Promise<string | null>;
+  // Send one request through a client built with a registry account's proxy and client settings
+  checkProxy(settings: ClientSettings, targetUrl: string): Promise<ProxyCheckResult>;
+
+  // Publishing
+  uploadPhoto(ig: InstagramClient, filePath: string, caption?: string, details?: PostDetails): Promise<PublishResult>;
+  uploadVideo(ig: InstagramClient, filePath: string, coverImagePath: string, caption?: string, details?: PostDetails): Promise<PublishResult>;
+  uploadAlbum(ig: InstagramClient, items: AlbumItemFile[], caption?: string, location?: string): Promise<PublishResult>;
+  uploadStory(ig: InstagramClient, options: StoryUploadOptions): Promise<PublishResult>;
+  uploadReel(ig: InstagramClient, filePath: string, coverImagePath: string, caption?: string, shareToFeed?: boolean): Promise<PublishResult>;
+
+  // Users
+  getCurrentUser(ig: InstagramClient): Promise<{ pk: string; username: string }>;
+  resolveUserId(ig: InstagramClient, user: string): Promise<string>;
+  searchUsers(ig: InstagramClient, query: string, limit?: number): Promise<UserSearchResult[]>;
+  getProfile(ig: InstagramClient, user: string): Promise<any>;
+  getConnectionsPage(ig: InstagramClient, user: string, type: ConnectionType, limit?: number, cursor?: string): Promise<ConnectionsPage>;
+  getAccountInsights(ig: InstagramClient): Promise<AccountInsights>;
+
+  // Media
+  getMediaInfo(ig: InstagramClient, mediaId: string): Promise<any>;
+  editCaption(ig: InstagramClient, mediaId: string, caption: string): Promise<any>;
+  setArchived(ig: InstagramClient, mediaId: string, archived: boolean): Promise<any>;
+  deleteMedia(ig: InstagramClient, mediaId: string): Promise<any>;
+
+  // Feeds
+  getTimelinePage(ig: InstagramClient, limit?: number, cursor?: string): Promise<FeedPage>;
+  getUserFeedPage(ig: InstagramClient, user: string, limit?: number, cursor?: string): Promise<FeedPage>;
+  getSavedFeedPage(ig: InstagramClient, limit?: number, cursor?: string): Promise<FeedPage>;
+  getHashtagFeedPage(ig: InstagramClient, tag: string, section: 'top' | 'recent', limit?: number, cursor?: string): Promise<FeedPage<TrimmedMedia>>;
+  searchLocations(ig: InstagramClient, query: string, coordinates?: { latitude: number; longitude: number }): Promise<LocationSummary[]>;
+  getLocationFeedPage(ig: InstagramClient, locationId: string, section: 'recent' | 'ranked', limit?: number, cursor?: string): Promise<FeedPage<TrimmedMedia>>;
+
+  // Comments
+  getCommentsPage(ig: InstagramClient, mediaId: string, limit?: number, cursor?: string): Promise<FeedPage<CommentSummary>>;
+  replyToComment(ig: InstagramClient, mediaId: string, commentId: string, text: string): Promise<any>;
+  likeComment(ig: InstagramClient, commentId: string): Promise<any>;
+  deleteComments(ig: InstagramClient, mediaId: string, commentIds: string[]): Promise<any>;
+  setCommentsEnabled(ig: InstagramClient, mediaId: string, enabled: boolean): Promise<any>;
+
+  // Direct messages
+  getInboxPage(ig: InstagramClient, limit?: number, cursor?: string): Promise<FeedPage<DirectThreadSummary>>;
+  getPendingInboxPage(ig: InstagramClient, limit?: number, cursor?: string): Promise<FeedPage<DirectThreadSummary>>;
+  getThreadMessagesPage(ig: InstagramClient, threadId: string, limit?: number, cursor?: string): Promise<FeedPage<DirectMessageSummary>>;
+  sendDirectText(ig: InstagramClient, target: DirectTarget, text: string): Promise<any>;
+  sendDirectPhoto(ig: InstagramClient, target: DirectTarget, filePath: string): Promise<any>;
+  respondToMessageRequest(ig: InstagramClient, threadId: string, approve: boolean): Promise<any>;
+}
@@ -0,0 +1,265 @@
+import { getProfile, getUserFeedPage, trimMedia, trimProfile } from './instagram.js';
+import type { InstagramClient, TrimmedMedia } from './instagram.js';
+import { SnapshotService } from './core/services/index.js';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Feed pages requested while walking back through an account's posts
+const REPORT_PAGE_SIZE = 50;
+
+export interface ReportOptions {
+  from: Date;
+  to: Date;
+  maxPosts: number;
+  // IANA time zone used for the hour and weekday breakdowns
+  timezone: string;
+}
+
+export interface PostEngagement {
+  id: string;
+  code: string;
+  media_type: number;
+  taken_at: string;
+  like_count: number;
+  comment_count: number;
+  engagement_rate: number;
+  hashtags: string[];
+}
+
+export interface EngagementBucket {
+  key: string;
+  posts: number;
+  avg_engagement_rate: number;
+}
+
+export interface HashtagPerformance {
+  tag: string;
+  posts: number;
+  avg_likes: number;
+  avg_comments: number;
+  avg_engagement_rate: number;
+}
+
+export interface FollowerGrowth {
+  snapshots: { takenAt: string; count: number }[];
+  change: number;
+  change_percent: number | null;
+}
+
+export interface AccountReport {
+  account: { userId: string; username: string; follower_count: number };
+  range: { from: string; to: string; timezone: string };
+  // True when maxPosts was reached before the start of the range
+  truncated: boolean;
+  totals: { posts: number; likes: number; comments: number; avg_engagement_rate: number };
+  posts: PostEngagement[];
+  best_hour: EngagementBucket | null;
+  best_weekday: EngagementBucket | null;
+  by_hour: EngagementBucket[];
+  by_weekday: EngagementBucket[];
+  hashtags: HashtagPerformance[];
+  follower_growth: FollowerGrowth | null;
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function average(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Engagement rate of one post: likes plus comments per follower, in percent
+ */
+export function engagementRate(likes: number, comments: number, followers: number): number {
+  return followers > 0 ? round(((likes + comments) / followers) * 100, 3) : 0;
+}
+
+export function extractHashtags(caption: string | null): string[] {
+  const tags = (caption || '').match(/#[\p{L}\p{N}_]+/gu) || [];
+  return [...new Set(tags.map(tag => tag.slice(1).toLowerCase()))];
+}
+
+function bucket(posts: PostEngagement[], keyOf: (post: PostEngagement) => string): EngagementBucket[] {
+  const groups = new Map<string, number[]>();
+  posts.forEach(post => {
+    const key = keyOf(post);
+    groups.set(key, [...(groups.get(key) || []), post.engagement_rate]);
+  });
+  return [...groups.entries()].map(([key, rates]) => ({
+    key,
+    posts: rates.length,
+    avg_engagement_rate: round(average(rates), 3)
+  }));
+}
+
+function best(buckets: EngagementBucket[]): EngagementBucket | null {
+  return buckets.reduce<EngagementBucket | null>((top, entry) => (!top || entry.avg_engagement_rate > top.avg_engagement_rate ? entry : top), null);
+}
+
+/**
+ * Walk an account's feed back to the start of the range
+ */
+async function collectMedia(ig: InstagramClient, userId: string, options: ReportOptions) {
+  const from = options.from.getTime() / 1000;
+  const to = options.to.getTime() / 1000;
+  const media: TrimmedMedia[] = [];
+  let cursor: string | undefined;
+  let truncated = false;
+
+  do {
+    const page = await getUserFeedPage(ig, userId, REPORT_PAGE_SIZE, cursor);
+    const items = page.items.map(trimMedia);
+    media.push(...items.filter(item => item.taken_at >= from && item.taken_at <= to));
+    cursor = page.nextCursor ?? undefined;
+    // Pinned posts can be older than what follows them, so only stop on an older unpinned page
+    if (items.length > 0 && items.every(item => item.taken_at < from)) {
+      break;
+    }
+    if (media.length >= options.maxPosts) {
+      truncated = Boolean(cursor);
+      break;
+    }
+  } while (cursor);
+
+  return { media: media.slice(0, options.maxPosts), truncated };
+}
+
+function followerGrowth(userId: string, options: ReportOptions): FollowerGrowth | null {
+  const snapshots = SnapshotService.list(userId, 'followers')
+    .filter(snapshot => snapshot.complete)
+    .filter(snapshot => {
+      const takenAt = new Date(snapshot.takenAt).getTime();
+      return takenAt >= options.from.getTime() && takenAt <= options.to.getTime();
+    })
+    .map(snapshot => ({ takenAt: snapshot.takenAt, count: snapshot.users.length }));
+  if (snapshots.length === 0) {
+    return null;
+  }
+  const first = snapshots[0].count;
+  const change = snapshots[snapshots.length - 1].count - first;
+  return {
+    snapshots,
+    change,
+    change_percent: first > 0 ? round((change / first) * 100) : null
+  };
+}
+
+/**
+ * Build an engagement report for an account's posts in a date range
+ * @param user Username or numeric user id
+ */
+export async function buildAccountReport(ig: InstagramClient, user: string, options: ReportOptions): Promise<AccountReport> {
+  const profile = trimProfile(await getProfile(ig, user));
+  const { media, truncated } = await collectMedia(ig, profile.pk, options);
+
+  const hourFormat = new Intl.DateTimeFormat('en-US', { timeZone: options.timezone, hour: 'numeric', hourCycle: 'h23' });
+  const weekdayFormat = new Intl.DateTimeFormat('en-US', { timeZone: options.timezone, weekday: 'long' });
+
+  const posts: PostEngagement[] = media.map(item => ({
+    id: item.id,
+    code: item.code,
+    media_type: item.media_type,
+    taken_at: new Date(item.taken_at * 1000).toISOString(),
+    like_count: item.like_count,
+    comment_count: item.comment_count,
+    engagement_rate: engagementRate(item.like_count, item.comment_count, profile.follower_count),
+    hashtags: extractHashtags(item.caption)
+  }));
+
+  const byHour = bucket(posts, post => hourFormat.format(new Date(post.taken_at)).padStart(2, '0'))
+    .sort((a, b) => a.key.localeCompare(b.key));
+  const byWeekday = bucket(posts, post => weekdayFormat.format(new Date(post.taken_at)))
+    .sort((a, b) => WEEKDAYS.indexOf(a.key) - WEEKDAYS.indexOf(b.key));
+
+  const tagged = new Map<string, PostEngagement[]>();
+  posts.forEach(post => post.hashtags.forEach(tag => tagged.set(tag, [...(tagged.get(tag) || []), post])));
+  const hashtags: HashtagPerformance[] = [...tagged.entries()]
+    .map(([tag, tagPosts]) => ({
+      tag,
+      posts: tagPosts.length,
+      avg_likes: round(average(tagPosts.map(post => post.like_count)), 1),
+      avg_comments: round(average(tagPosts.map(post => post.comment_count)), 1),
+      avg_engagement_rate: round(average(tagPosts.map(post => post.engagement_rate)), 3)
+    }))
+    .sort((a, b) => b.avg_engagement_rate - a.avg_engagement_rate || b.posts - a.posts);
+
+  return {
+    account: { userId: profile.pk, username: profile.username, follower_count: profile.follower_count },
+    range: { from: options.from.toISOString(), to: options.to.toISOString(), timezone: options.timezone },
+    truncated,
+    totals: {
+      posts: posts.length,
+      likes: posts.reduce((sum, post) => sum + post.like_count, 0),
+      comments: posts.reduce((sum, post) => sum + post.comment_count, 0),
+      avg_engagement_rate: round(average(posts.map(post => post.engagement_rate)), 3)
+    },
+    posts,
+    best_hour: best(byHour),
+    best_weekday: best(byWeekday),
+    by_hour: byHour,
+    by_weekday: byWeekday,
+    hashtags,
+    follower_growth: followerGrowth(profile.pk, options)
+  };
+}
+
+function table(headers: string[], rows: (string | number)[][]): string {
+  const escape = (value: string | number) => String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escape).join(' | ')} |`)
+  ].join('\n');
+}
+
+/**
+ * Render a report as markdown tables
+ */
+export function renderReportMarkdown(report: AccountReport): string {
+  const sections = [
+    `# Instagram report for @${report.account.username}`,
+    `${report.range.from.slice(0, 10)} to ${report.range.to.slice(0, 10)} (${report.range.timezone}), ${report.account.follower_count} followers${report.truncated ? '. Post limit reached; older posts in the range are not included.' : ''}`,
+    '## Summary',
+    table(['Posts', 'Likes', 'Comments', 'Avg engagement rate'], [[
+      report.totals.posts,
+      report.totals.likes,
+      report.totals.comments,
+      `${report.totals.avg_engagement_rate}%`
+    ]]),
+    '## Posts',
+    report.posts.length > 0
+      ? table(['Date', 'Post', 'Likes', 'Comments', 'Engagement rate'], report.posts.map(post => [
+          post.taken_at.slice(0, 16).replace('T', ' '),
+          `https://www.instagram.com/p/${post.code}/`,
+          post.like_count,
+          post.comment_count,
+          `${post.engagement_rate}%`
+        ]))
+      : 'No posts in this range.',
+    '## Best times to post',
+    table(['Best hour', 'Best weekday'], [[
+      report.best_hour ? `${report.best_hour.key}:00 (${report.best_hour.avg_engagement_rate}%)` : '-',
+      report.best_weekday ? `${report.best_weekday.key} (${report.best_weekday.avg_engagement_rate}%)` : '-'
+    ]]),
+    '## Hashtags',
+    report.hashtags.length > 0
+      ? table(['Hashtag', 'Posts', 'Avg likes', 'Avg comments', 'Avg engagement rate'], report.hashtags.map(tag => [
+          `#${tag.tag}`,
+          tag.posts,
+          tag.avg_likes,
+          tag.avg_comments,
+          `${tag.avg_engagement_rate}%`
+        ]))
+      : 'No hashtags used in this range.',
+    '## Follower growth',
+    report.follower_growth
+      ? table(['Snapshot', 'Followers'], report.follower_growth.snapshots.map(snapshot => [snapshot.takenAt.slice(0, 16).replace('T', ' '), snapshot.count])) +
+        `\n\nChange: ${report.follower_growth.change >= 0 ? '+' : ''}${report.follower_growth.change}` +
+        (report.follower_growth.change_percent !== null ? ` (${report.follower_growth.change_percent}%)` : '')
+      : 'No follower snapshots in this range. Run instagram_export_connections regularly to track growth.'
+  ];
+  return sections.join('\n\n') + '\n';
+}
@@ -0,0 +1,85 @@
+import { randomUUID } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { FastMCP, FastMCPSession } from 'fastmcp';
+import type { AuditEntry } from './core/services/index.js';
+
+// Argument names whose values are never written to logs
+const SECRET_KEYS = /password|token|secret|session|cookie|^code$/i;
+
+// Stands in for the MCP session of a stdio server, which has exactly one
+const STDIO_SESSION_ID = randomUUID();
+
+const connectedSessions = new Set<FastMCPSession<any>>();
+
+/**
+ * Copy of tool arguments that is safe to log: secrets are replaced and
+ * inline base64 media is reduced to its length
+ */
+export function redactArgs(value: any, key: string = ''): any {
+  if (SECRET_KEYS.test(key) && value !== undefined && value !== null) {
+    return '[redacted]';
+  }
+  if (key === 'data' && typeof value === 'string') {
+    return `[${value.length} chars of base64]`;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactArgs(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, redactArgs(item, name)]));
+  }
+  return value;
+}
+
+/**
+ * Session details for HTTP transports, passed to every tool call as the
+ * FastMCP session auth
+ */
+export async function authenticateSession(request: IncomingMessage): Promise<Record<string, unknown>> {
+  return {
+    sessionId: randomUUID(),
+    remoteAddress: request.socket.remoteAddress,
+    userAgent: request.headers['user-agent']
+  };
+}
+
+/**
+ * Keep track of connected MCP sessions, to find the client behind a call
+ */
+export function trackSessions(server: FastMCP<any>): void {
+  server.on('connect', ({ session }) => {
+    connectedSessions.add(session);
+  });
+  server.on('disconnect', ({ session }) => {
+    connectedSessions.delete(session);
+  });
+}
+
+/**
+ * Caller recorded for posts published by the background scheduler, which
+ * runs outside any MCP session
+ */
+export function schedulerCaller(): Pick<AuditEntry, 'mcpSession' | 'client'> {
+  return {
+    mcpSession: { id: 'scheduler', transport: 'scheduler' },
+    client: null
+  };
+}
+
+/**
+ * The MCP session and client a tool call came from. The client's name and
+ * version are only known when a single session is connected, since FastMCP
+ * does not tell tools which session called them.
+ * @param auth The session auth from the tool's context
+ */
+export function describeCaller(auth: Record<string, any> | undefined): Pick<AuditEntry, 'mcpSession' | 'client'> {
+  const mcpSession = auth?.sessionId
+    ? { id: String(auth.sessionId), transport: 'http', remoteAddress: auth.remoteAddress, userAgent: auth.userAgent }
+    : { id: STDIO_SESSION_ID, transport: 'stdio' };
+  const sessions = [...connectedSessions];
+  const clientInfo = sessions.length === 1 ? sessions[0].server.getClientVersion() : undefined;
+  return {
+    mcpSession,
+    client: clientInfo ? { name: clientInfo.name, version: clientInfo.version } : null
+  };
+}
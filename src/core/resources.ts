@@ -1,378 +1,400 @@
 import { FastMCP } from "fastmcp";
+import type { Resource, ResourceResult, ResourceTemplate, ResourceTemplateArgument } from "fastmcp";
 import * as services from "./services/index.js";
+import { withDefaultSession, getProfile, getUserFeedPage, getMediaInfo, getAccountInsights, trimMedia, trimProfile } from "../instagram.js";
+
+// Posts served by the instagram://user/{username}/recent resource
+const RECENT_POSTS_LIMIT = 12;
+
+// Every resource and template the server offers. registerResources hands them to FastMCP and
+// readResource serves them to tools, so both work from the same definitions in the same order.
+const resources: Resource[] = [];
+const resourceTemplates: ResourceTemplate[] = [];
 
 /**
- * Register all resources with the MCP server
- * @param server The FastMCP server instance
+ * Add a resource to the registry
+ * @param resource The resource definition
  */
-export function registerResources(server: FastMCP) {
-  // Example resource
-  server.addResourceTemplate({
-    uriTemplate: "example://{id}",
-    name: "Example Resource",
-    mimeType: "text/plain",
-    arguments: [
-      {
-        name: "id",
-        description: "Resource ID",
-        required: true,
-      },
-    ],
-    async load({ id }) {
-      return {
-        text: `This is an example resource with ID: ${id}`
-      };
-    }
-  });
-
-  // Configuration resource
-  server.addResourceTemplate({
-    uriTemplate: "config://{environment}/{service}",
-    name: "Configuration Settings",
-    mimeType: "application/json",
-    arguments: [
-      {
-        name: "environment",
-        description: "Environment name (dev, staging, prod)",
-        required: true,
-      },
-      {
-        name: "service",
-        description: "Service name",
-        required: true,
-      },
-    ],
-    async load({ environment, service }) {
-      const config = {
-        environment,
-        service,
-        settings: {
-          database: {
-            host: `${service}-${environment}.db.example.com`,
-            port: environment === "prod" ? 5432 : 5433,
-            ssl: environment === "prod",
-          },
-          cache: {
-            redis_url: `redis://${service}-${environment}.cache.example.com:6379`,
-            ttl: environment === "prod" ? 3600 : 300,
-          },
-          logging: {
-            level: environment === "prod" ? "info" : "debug",
-            format: "json",
-          },
-          features: {
-            newFeatureEnabled: environment !== "prod",
-            analyticsEnabled: true,
-          },
-        },
-        lastUpdated: new Date().toISOString(),
-      };
+function defineResource(resource: Resource) {
+  resources.push(resource);
+}
 
-      return {
-        text: JSON.stringify(config, null, 2)
-      };
-    }
-  });
-
-  // API documentation resource
-  server.addResourceTemplate({
-    uriTemplate: "api://{version}/{endpoint}",
-    name: "API Documentation",
-    mimeType: "application/json",
-    arguments: [
-      {
-        name: "version",
-        description: "API version (v1, v2, etc.)",
-        required: true,
-      },
-      {
-        name: "endpoint",
-        description: "API endpoint name",
-        required: true,
+/**
+ * Add a resource template to the registry. Templates are matched in the
+ * order they are defined.
+ * @param template The resource template definition
+ */
+function defineResourceTemplate<const Args extends ResourceTemplateArgument[]>(template: ResourceTemplate<Args>) {
+  resourceTemplates.push(template as ResourceTemplate);
+}
+
+// Example resource
+defineResourceTemplate({
+  uriTemplate: "example://{id}",
+  name: "Example Resource",
+  mimeType: "text/plain",
+  arguments: [
+    {
+      name: "id",
+      description: "Resource ID",
+      required: true,
+    },
+  ],
+  async load({ id }) {
+    return {
+      text: `This is an example resource with ID: ${id}`
+    };
+  }
+});
+
+// Configuration resource
+defineResourceTemplate({
+  uriTemplate: "config://{environment}/{service}",
+  name: "Configuration Settings",
+  mimeType: "application/json",
+  arguments: [
+    {
+      name: "environment",
+      description: "Environment name (dev, staging, prod)",
+      required: true,
+    },
+    {
+      name: "service",
+      description: "Service name",
+      required: true,
+    },
+  ],
+  async load({ environment, service }) {
+    const config = {
+      environment,
+      service,
+      settings: {
+        database: {
+          host: `${service}-${environment}.db.example.com`,
+          port: environment === "prod" ? 5432 : 5433,
+          ssl: environment === "prod",
+        },
+        cache: {
+          redis_url: `redis://${service}-${environment}.cache.example.com:6379`,
+          ttl: environment === "prod" ? 3600 : 300,
+        },
+        logging: {
+          level: environment === "prod" ? "info" : "debug",
+          format: "json",
+        },
+        features: {
+          newFeatureEnabled: environment !== "prod",
+          analyticsEnabled: true,
+        },
       },
-    ],
-    async load({ version, endpoint }) {
-      const documentation = {
-        version,
-        endpoint: `/${version}/${endpoint}`,
-        methods: {
-          GET: {
-            description: `Retrieve ${endpoint} data`,
-            parameters: [
-              {
-                name: "id",
-                type: "string",
-                required: true,
-                description: `Unique identifier for ${endpoint}`,
-              },
-              {
-                name: "fields",
-                type: "string",
-                required: false,
-                description: "Comma-separated list of fields to return",
-              },
-            ],
-            responses: {
-              200: {
-                description: "Success",
-                schema: {
-                  type: "object",
-                  properties: {
-                    id: { type: "string" },
-                    data: { type: "object" },
-                    metadata: { type: "object" },
-                  },
-                },
-              },
-              404: {
-                description: "Resource not found",
-              },
-            },
-          },
-          POST: {
-            description: `Create new ${endpoint}`,
-            requestBody: {
+      lastUpdated: new Date().toISOString(),
+    };
+
+    return {
+      text: JSON.stringify(config, null, 2)
+    };
+  }
+});
+
+// API documentation resource
+defineResourceTemplate({
+  uriTemplate: "api://{version}/{endpoint}",
+  name: "API Documentation",
+  mimeType: "application/json",
+  arguments: [
+    {
+      name: "version",
+      description: "API version (v1, v2, etc.)",
+      required: true,
+    },
+    {
+      name: "endpoint",
+      description: "API endpoint name",
+      required: true,
+    },
+  ],
+  async load({ version, endpoint }) {
+    const documentation = {
+      version,
+      endpoint: `/${version}/${endpoint}`,
+      methods: {
+        GET: {
+          description: `Retrieve ${endpoint} data`,
+          parameters: [
+            {
+              name: "id",
+              type: "string",
               required: true,
+              description: `Unique identifier for ${endpoint}`,
+            },
+            {
+              name: "fields",
+              type: "string",
+              required: false,
+              description: "Comma-separated list of fields to return",
+            },
+          ],
+          responses: {
+            200: {
+              description: "Success",
               schema: {
                 type: "object",
                 properties: {
-                  name: { type: "string", required: true },
-                  description: { type: "string" },
+                  id: { type: "string" },
+                  data: { type: "object" },
+                  metadata: { type: "object" },
                 },
               },
             },
-            responses: {
-              201: { description: "Created successfully" },
-              400: { description: "Invalid request data" },
+            404: {
+              description: "Resource not found",
             },
           },
         },
-        examples: {
-          curl: `curl -X GET "https://api.example.com/${version}/${endpoint}/123"`,
-          javascript: `
+        POST: {
+          description: `Create new ${endpoint}`,
+          requestBody: {
+            required: true,
+            schema: {
+              type: "object",
+              properties: {
+                name: { type: "string", required: true },
+                description: { type: "string" },
+              },
+            },
+          },
+          responses: {
+            201: { description: "Created successfully" },
+            400: { description: "Invalid request data" },
+          },
+        },
+      },
+      examples: {
+        curl: `curl -X GET "https://api.example.com/${version}/${endpoint}/123"`,
+        javascript: `
 const response = await fetch('https://api.example.com/${version}/${endpoint}/123');
 const data = await response.json();
           `.trim(),
-        },
-      };
-
-      return {
-        text: JSON.stringify(documentation, null, 2)
-      };
-    }
-  });
-
-  // Log files resource
-  server.addResourceTemplate({
-    uriTemplate: "logs://{service}/{date}/{level}",
-    name: "Application Logs",
-    mimeType: "text/plain",
-    arguments: [
-      {
-        name: "service",
-        description: "Service name",
-        required: true,
-      },
-      {
-        name: "date",
-        description: "Date in YYYY-MM-DD format",
-        required: true,
       },
-      {
-        name: "level",
-        description: "Log level (error, warn, info, debug)",
-        required: true,
-      },
-    ],
-    async load({ service, date, level }) {
-      const logEntries = [
-        `${date} 09:15:32 [${level.toUpperCase()}] ${service}: Service started successfully`,
-        `${date} 09:16:01 [${level.toUpperCase()}] ${service}: Database connection established`,
-        `${date} 09:16:45 [${level.toUpperCase()}] ${service}: Processing incoming request`,
-        `${date} 09:17:12 [${level.toUpperCase()}] ${service}: Operation completed in 267ms`,
-        `${date} 09:18:33 [${level.toUpperCase()}] ${service}: Cache updated with new data`,
-      ];
-
-      if (level === "error") {
-        logEntries.push(
-          `${date} 09:19:44 [ERROR] ${service}: Connection timeout to external service`,
-          `${date} 09:20:15 [ERROR] ${service}: Retry attempt 1/3 failed`,
-          `${date} 09:20:45 [ERROR] ${service}: Critical error in payment processing module`
-        );
-      }
+    };
 
-      return {
-        text: logEntries.join('\n')
-      };
+    return {
+      text: JSON.stringify(documentation, null, 2)
+    };
+  }
+});
+
+// Log files resource
+defineResourceTemplate({
+  uriTemplate: "logs://{service}/{date}/{level}",
+  name: "Application Logs",
+  mimeType: "text/plain",
+  arguments: [
+    {
+      name: "service",
+      description: "Service name",
+      required: true,
+    },
+    {
+      name: "date",
+      description: "Date in YYYY-MM-DD format",
+      required: true,
+    },
+    {
+      name: "level",
+      description: "Log level (error, warn, info, debug)",
+      required: true,
+    },
+  ],
+  async load({ service, date, level }) {
+    const logEntries = [
+      `${date} 09:15:32 [${level.toUpperCase()}] ${service}: Service started successfully`,
+      `${date} 09:16:01 [${level.toUpperCase()}] ${service}: Database connection established`,
+      `${date} 09:16:45 [${level.toUpperCase()}] ${service}: Processing incoming request`,
+      `${date} 09:17:12 [${level.toUpperCase()}] ${service}: Operation completed in 267ms`,
+      `${date} 09:18:33 [${level.toUpperCase()}] ${service}: Cache updated with new data`,
+    ];
+
+    if (level === "error") {
+      logEntries.push(
+        `${date} 09:19:44 [ERROR] ${service}: Connection timeout to external service`,
+        `${date} 09:20:15 [ERROR] ${service}: Retry attempt 1/3 failed`,
+        `${date} 09:20:45 [ERROR] ${service}: Critical error in payment processing module`
+      );
     }
-  });
-
-  // Database schema resource
-  server.addResourceTemplate({
-    uriTemplate: "schema://{database}/{table}",
-    name: "Database Schema",
-    mimeType: "application/json",
-    arguments: [
-      {
-        name: "database",
-        description: "Database name",
-        required: true,
-      },
-      {
-        name: "table",
-        description: "Table name",
-        required: true,
-      },
-    ],
-    async load({ database, table }) {
-      const schema = {
-        database,
-        table,
-        columns: [
-          {
-            name: "id",
-            type: "INTEGER",
-            primaryKey: true,
-            autoIncrement: true,
-            nullable: false,
-          },
-          {
-            name: "name",
-            type: "VARCHAR(255)",
-            nullable: false,
-            index: true,
-          },
-          {
-            name: "email",
-            type: "VARCHAR(255)",
-            nullable: false,
-            unique: true,
-          },
-          {
-            name: "created_at",
-            type: "TIMESTAMP",
-            default: "CURRENT_TIMESTAMP",
-            nullable: false,
-          },
-          {
-            name: "updated_at",
-            type: "TIMESTAMP",
-            default: "CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP",
-            nullable: false,
-          },
-        ],
-        indexes: [
-          {
-            name: `idx_${table}_name`,
-            columns: ["name"],
-            type: "BTREE",
-          },
-          {
-            name: `idx_${table}_email`,
-            columns: ["email"],
-            type: "HASH",
-            unique: true,
-          },
-        ],
-        constraints: [
-          {
-            name: `pk_${table}_id`,
-            type: "PRIMARY KEY",
-            columns: ["id"],
-          },
-          {
-            name: `uk_${table}_email`,
-            type: "UNIQUE",
-            columns: ["email"],
-          },
-        ],
-      };
 
-      return {
-        text: JSON.stringify(schema, null, 2)
-      };
-    }
-  });
-
-  // Metrics and monitoring resource
-  server.addResourceTemplate({
-    uriTemplate: "metrics://{service}/{timeframe}",
-    name: "Service Metrics",
-    mimeType: "application/json",
-    arguments: [
-      {
-        name: "service",
-        description: "Service name",
-        required: true,
-      },
-      {
-        name: "timeframe",
-        description: "Time period (1h, 24h, 7d, 30d)",
-        required: true,
-      },
-    ],
-    async load({ service, timeframe }) {
-      const now = Date.now();
-      const metrics = {
-        service,
-        timeframe,
-        timestamp: new Date(now).toISOString(),
-        performance: {
-          averageResponseTime: Math.random() * 200 + 50, // 50-250ms
-          requestsPerSecond: Math.random() * 1000 + 100,
-          errorRate: Math.random() * 0.05, // 0-5%
-          uptime: 99.9 - Math.random() * 0.5, // 99.4-99.9%
+    return {
+      text: logEntries.join('\n')
+    };
+  }
+});
+
+// Database schema resource
+defineResourceTemplate({
+  uriTemplate: "schema://{database}/{table}",
+  name: "Database Schema",
+  mimeType: "application/json",
+  arguments: [
+    {
+      name: "database",
+      description: "Database name",
+      required: true,
+    },
+    {
+      name: "table",
+      description: "Table name",
+      required: true,
+    },
+  ],
+  async load({ database, table }) {
+    const schema = {
+      database,
+      table,
+      columns: [
+        {
+          name: "id",
+          type: "INTEGER",
+          primaryKey: true,
+          autoIncrement: true,
+          nullable: false,
         },
-        resources: {
-          cpuUsage: Math.random() * 80 + 10, // 10-90%
-          memoryUsage: Math.random() * 70 + 20, // 20-90%
-          diskUsage: Math.random() * 60 + 30, // 30-90%
-          networkIn: Math.random() * 1000 + 100, // MB
-          networkOut: Math.random() * 800 + 50, // MB
+        {
+          name: "name",
+          type: "VARCHAR(255)",
+          nullable: false,
+          index: true,
         },
-        endpoints: [
-          {
-            path: "/api/users",
-            requests: Math.floor(Math.random() * 10000 + 1000),
-            averageTime: Math.random() * 100 + 20,
-            errors: Math.floor(Math.random() * 50),
-          },
-          {
-            path: "/api/products",
-            requests: Math.floor(Math.random() * 8000 + 500),
-            averageTime: Math.random() * 150 + 30,
-            errors: Math.floor(Math.random() * 25),
-          },
-        ],
-      };
+        {
+          name: "email",
+          type: "VARCHAR(255)",
+          nullable: false,
+          unique: true,
+        },
+        {
+          name: "created_at",
+          type: "TIMESTAMP",
+          default: "CURRENT_TIMESTAMP",
+          nullable: false,
+        },
+        {
+          name: "updated_at",
+          type: "TIMESTAMP",
+          default: "CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP",
+          nullable: false,
+        },
+      ],
+      indexes: [
+        {
+          name: `idx_${table}_name`,
+          columns: ["name"],
+          type: "BTREE",
+        },
+        {
+          name: `idx_${table}_email`,
+          columns: ["email"],
+          type: "HASH",
+          unique: true,
+        },
+      ],
+      constraints: [
+        {
+          name: `pk_${table}_id`,
+          type: "PRIMARY KEY",
+          columns: ["id"],
+        },
+        {
+          name: `uk_${table}_email`,
+          type: "UNIQUE",
+          columns: ["email"],
+        },
+      ],
+    };
 
-      return {
-        text: JSON.stringify(metrics, null, 2)
-      };
-    }
-  });
-
-  // Documentation templates resource
-  server.addResourceTemplate({
-    uriTemplate: "docs://{type}/{template}",
-    name: "Documentation Templates",
-    mimeType: "text/markdown",
-    arguments: [
-      {
-        name: "type",
-        description: "Documentation type (readme, api, guide, changelog)",
-        required: true,
+    return {
+      text: JSON.stringify(schema, null, 2)
+    };
+  }
+});
+
+// Metrics and monitoring resource
+defineResourceTemplate({
+  uriTemplate: "metrics://{service}/{timeframe}",
+  name: "Service Metrics",
+  mimeType: "application/json",
+  arguments: [
+    {
+      name: "service",
+      description: "Service name",
+      required: true,
+    },
+    {
+      name: "timeframe",
+      description: "Time period (1h, 24h, 7d, 30d)",
+      required: true,
+    },
+  ],
+  async load({ service, timeframe }) {
+    const now = Date.now();
+    const metrics = {
+      service,
+      timeframe,
+      timestamp: new Date(now).toISOString(),
+      performance: {
+        averageResponseTime: Math.random() * 200 + 50, // 50-250ms
+        requestsPerSecond: Math.random() * 1000 + 100,
+        errorRate: Math.random() * 0.05, // 0-5%
+        uptime: 99.9 - Math.random() * 0.5, // 99.4-99.9%
       },
-      {
-        name: "template",
-        description: "Template name",
-        required: true,
+      resources: {
+        cpuUsage: Math.random() * 80 + 10, // 10-90%
+        memoryUsage: Math.random() * 70 + 20, // 20-90%
+        diskUsage: Math.random() * 60 + 30, // 30-90%
+        networkIn: Math.random() * 1000 + 100, // MB
+        networkOut: Math.random() * 800 + 50, // MB
       },
-    ],
-    async load({ type, template }) {
-      const templates: Record<string, Record<string, string>> = {
-        readme: {
-          basic: `# Project Name
+      endpoints: [
+        {
+          path: "/api/users",
+          requests: Math.floor(Math.random() * 10000 + 1000),
+          averageTime: Math.random() * 100 + 20,
+          errors: Math.floor(Math.random() * 50),
+        },
+        {
+          path: "/api/products",
+          requests: Math.floor(Math.random() * 8000 + 500),
+          averageTime: Math.random() * 150 + 30,
+          errors: Math.floor(Math.random() * 25),
+        },
+      ],
+    };
+
+    return {
+      text: JSON.stringify(metrics, null, 2)
+    };
+  }
+});
+
+// Documentation templates resource
+defineResourceTemplate({
+  uriTemplate: "docs://{type}/{template}",
+  name: "Documentation Templates",
+  mimeType: "text/markdown",
+  arguments: [
+    {
+      name: "type",
+      description: "Documentation type (readme, api, guide, changelog)",
+      required: true,
+    },
+    {
+      name: "template",
+      description: "Template name",
+      required: true,
+    },
+  ],
+  async load({ type, template }) {
+    const templates: Record<string, Record<string, string>> = {
+      readme: {
+        basic: `# Project Name
 
 ## Description
 Brief description of what this project does and who it's for.
@@ -393,9 +415,9 @@ Please read [CONTRIBUTING.md](CONTRIBUTING.md) for details on our code of conduc
 
 ## License
 This project is licensed under the MIT License - see the [LICENSE.md](LICENSE.md) file for details.`,
-        },
-        api: {
-          endpoint: `## API Endpoint: {endpoint_name}
+      },
+      api: {
+        endpoint: `## API Endpoint: {endpoint_name}
 
 ### Description
 Brief description of what this endpoint does.
@@ -426,9 +448,9 @@ Brief description of what this endpoint does.
 - \`400\` - Bad Request
 - \`404\` - Not Found
 - \`500\` - Internal Server Error`,
-        },
-        guide: {
-          tutorial: `# Tutorial: {tutorial_name}
+      },
+      guide: {
+        tutorial: `# Tutorial: {tutorial_name}
 
 ## Prerequisites
 - List any prerequisites
@@ -448,9 +470,9 @@ Common issues and solutions.
 
 ## Next Steps
 What to do after completing this tutorial.`,
-        },
-        changelog: {
-          release: `# Changelog
+      },
+      changelog: {
+        release: `# Changelog
 
 ## [Unreleased]
 ### Added
@@ -474,41 +496,41 @@ What to do after completing this tutorial.`,
 ## [1.0.0] - 2024-01-01
 ### Added
 - Initial release`,
-        },
-      };
-
-      const templateContent = templates[type]?.[template];
-      if (!templateContent) {
-        throw new Error(`Template not found: ${type}/${template}`);
-      }
+      },
+    };
 
-      return {
-        text: templateContent
-      };
+    const templateContent = templates[type]?.[template];
+    if (!templateContent) {
+      throw new Error(`Template not found: ${type}/${template}`);
     }
-  });
-
-  // Code snippets resource
-  server.addResourceTemplate({
-    uriTemplate: "snippets://{language}/{category}",
-    name: "Code Snippets",
-    mimeType: "text/plain",
-    arguments: [
-      {
-        name: "language",
-        description: "Programming language (javascript, python, typescript, etc.)",
-        required: true,
-      },
-      {
-        name: "category",
-        description: "Snippet category (utils, examples, patterns)",
-        required: true,
-      },
-    ],
-    async load({ language, category }) {
-      const snippets: Record<string, Record<string, string> | undefined> = {
-        javascript: {
-          utils: `// Utility functions
+
+    return {
+      text: templateContent
+    };
+  }
+});
+
+// Code snippets resource
+defineResourceTemplate({
+  uriTemplate: "snippets://{language}/{category}",
+  name: "Code Snippets",
+  mimeType: "text/plain",
+  arguments: [
+    {
+      name: "language",
+      description: "Programming language (javascript, python, typescript, etc.)",
+      required: true,
+    },
+    {
+      name: "category",
+      description: "Snippet category (utils, examples, patterns)",
+      required: true,
+    },
+  ],
+  async load({ language, category }) {
+    const snippets: Record<string, Record<string, string> | undefined> = {
+      javascript: {
+        utils: `// Utility functions
 const debounce = (func, wait) => {
   let timeout;
   return function executedFunction(...args) {
@@ -528,7 +550,7 @@ const formatDate = (date) => {
     day: 'numeric'
   }).format(new Date(date));
 };`,
-          examples: `// API request example
+        examples: `// API request example
 const fetchData = async (url) => {
   try {
     const response = await fetch(url);
@@ -541,9 +563,9 @@ const fetchData = async (url) => {
     throw error;
   }
 };`,
-        },
-        python: {
-          utils: `# Utility functions
+      },
+      python: {
+        utils: `# Utility functions
 import functools
 import time
 
@@ -564,17 +586,156 @@ def retry(max_attempts=3, delay=1):
 def format_json(data, indent=2):
     import json
     return json.dumps(data, indent=indent, ensure_ascii=False)`,
-        },
-      };
+      },
+    };
+
+    const snippet = snippets[language]?.[category];
+    if (!snippet) {
+      throw new Error(`Snippet not found: ${language}/${category}`);
+    }
+
+    return {
+      text: snippet
+    };
+  }
+});
+
+// Instagram recent posts resource, defined before the profile template so it is matched first
+defineResourceTemplate({
+  uriTemplate: "instagram://user/{username}/recent",
+  name: "Instagram Recent Posts",
+  mimeType: "application/json",
+  arguments: [
+    {
+      name: "username",
+      description: "Instagram username or numeric user id",
+      required: true,
+    },
+  ],
+  async load({ username }) {
+    const page = await withDefaultSession(ig => getUserFeedPage(ig, username, RECENT_POSTS_LIMIT));
+    return {
+      text: JSON.stringify(page.items.map(trimMedia), null, 2)
+    };
+  }
+});
+
+// Instagram profile resource
+defineResourceTemplate({
+  uriTemplate: "instagram://user/{username}",
+  name: "Instagram Profile",
+  mimeType: "application/json",
+  arguments: [
+    {
+      name: "username",
+      description: "Instagram username or numeric user id",
+      required: true,
+    },
+  ],
+  async load({ username }) {
+    if (username.includes('/')) {
+      throw new Error(`Invalid username: ${username}`);
+    }
+    const profile = await withDefaultSession(ig => getProfile(ig, username));
+    return {
+      text: JSON.stringify(trimProfile(profile), null, 2)
+    };
+  }
+});
+
+// Instagram media resource
+defineResourceTemplate({
+  uriTemplate: "instagram://media/{mediaId}",
+  name: "Instagram Media",
+  mimeType: "application/json",
+  arguments: [
+    {
+      name: "mediaId",
+      description: "Media id, e.g. 3141592653589793238_25025320",
+      required: true,
+    },
+  ],
+  async load({ mediaId }) {
+    const item = await withDefaultSession(ig => getMediaInfo(ig, mediaId));
+    return {
+      text: JSON.stringify({
+        ...trimMedia(item),
+        user: item.user ? { pk: String(item.user.pk), username: item.user.username } : null,
+        location: item.location ? { pk: String(item.location.pk), name: item.location.name } : null
+      }, null, 2)
+    };
+  }
+});
+
+// Instagram account insights resource
+defineResource({
+  uri: "instagram://me/insights",
+  name: "Instagram Account Insights",
+  mimeType: "application/json",
+  async load() {
+    const insights = await withDefaultSession(ig => getAccountInsights(ig));
+    return {
+      text: JSON.stringify(insights, null, 2)
+    };
+  }
+});
 
-      const snippet = snippets[language]?.[category];
-      if (!snippet) {
-        throw new Error(`Snippet not found: ${language}/${category}`);
+/**
+ * Register all resources with the MCP server
+ * @param server The FastMCP server instance
+ */
+export function registerResources(server: FastMCP) {
+  resources.forEach(resource => server.addResource(resource));
+  resourceTemplates.forEach(template => server.addResourceTemplate(template));
+}
+
+/**
+ * Pattern matching a template's URIs, with one capture group per argument
+ * @param uriTemplate The template, e.g. "instagram://user/{username}"
+ */
+function templatePattern(uriTemplate: string): { pattern: RegExp; names: string[] } {
+  const names: string[] = [];
+  const source = uriTemplate
+    .split(/(\{[^}]+\})/)
+    .map(part => {
+      const name = part.match(/^\{([^}]+)\}$/)?.[1];
+      if (name) {
+        names.push(name);
+        return '([^/]+)';
       }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return { pattern: new RegExp(`^${source}$`), names };
+}
 
-      return {
-        text: snippet
-      };
+function resourceContent(uri: string, loaded: ResourceResult | ResourceResult[], mimeType?: string): { data: Buffer; mimeType?: string } {
+  const result = Array.isArray(loaded) ? loaded[0] : loaded;
+  if (!result) {
+    throw new Error(`Resource is empty: ${uri}`);
+  }
+  const data = 'blob' in result ? Buffer.from(result.blob, 'base64') : Buffer.from(result.text, 'utf8');
+  return { data, mimeType };
+}
+
+/**
+ * Read a registered resource by URI
+ * @param uri The resource URI, e.g. "docs://api/reference"
+ * @returns The resource content and its mime type
+ */
+export async function readResource(uri: string): Promise<{ data: Buffer; mimeType?: string }> {
+  const resource = resources.find(entry => entry.uri === uri);
+  if (resource) {
+    return resourceContent(uri, await resource.load(), resource.mimeType);
+  }
+  for (const template of resourceTemplates) {
+    const { pattern, names } = templatePattern(template.uriTemplate);
+    const match = uri.match(pattern);
+    if (!match) {
+      continue;
     }
-  });
-}
\ No newline at end of file
+    const args = Object.fromEntries(names.map((name, index) => [name, decodeURIComponent(match[index + 1])]));
+    return resourceContent(uri, await template.load(args), template.mimeType);
+  }
+  throw new Error(`Resource not found: ${uri}`);
+}
@@ -0,0 +1,190 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * One named Instagram account from the registry
+ */
+export interface AccountConfig {
+  // Name passed as `account` to the tools
+  name: string;
+  username?: string;
+  password?: string;
+  // Environment variable holding the password, so the file itself can be shared
+  passwordEnv?: string;
+  // JSON file with a serialized client state to start from instead of a password login
+  sessionFile?: string;
+  // http(s):// or socks(4|4a|5|5h):// proxy for this account's Instagram traffic
+  proxy?: string;
+  // Seed for the generated device, so it stays the same if the username changes
+  deviceSeed?: string;
+  // App locale, e.g. en_US
+  locale?: string;
+  // Seconds east of UTC reported to Instagram, e.g. 3600 for UTC+1
+  timezoneOffset?: number;
+  // Replaces the generated Android app user agent
+  userAgent?: string;
+  // Tools the account may be used with; every tool when omitted. A trailing * matches a prefix.
+  allowedTools?: string[];
+  // Publishing tools only create drafts for this account, which an approver must publish
+  requireApproval?: boolean;
+}
+
+/**
+ * The registry fields applied to an account's client before it logs in
+ */
+export type ClientSettings = Pick<AccountConfig, 'proxy' | 'deviceSeed' | 'locale' | 'timezoneOffset' | 'userAgent'>;
+
+const NAME_PATTERN = /^[a-zA-Z0-9._-]{1,64}$/;
+const LOCALE_PATTERN = /^[a-z]{2,3}(_[A-Z]{2})?$/;
+const PROXY_PROTOCOLS = ['http:', 'https:', 'socks:', 'socks4:', 'socks4a:', 'socks5:', 'socks5h:'];
+
+/**
+ * Registry of named accounts, read from IG_ACCOUNTS (inline JSON) or the
+ * JSON file at IG_ACCOUNTS_FILE
+ */
+export class AccountService {
+  /**
+   * Path of the registry file
+   */
+  public static getAccountsFile(): string {
+    return process.env.IG_ACCOUNTS_FILE || path.join(process.cwd(), 'accounts.json');
+  }
+
+  /**
+   * All configured accounts
+   */
+  public static list(): AccountConfig[] {
+    return this.read();
+  }
+
+  /**
+   * Look up an account by name
+   * @param name The account name
+   * @returns The account, or undefined when it is not configured
+   */
+  public static get(name: string): AccountConfig | undefined {
+    const normalized = name.trim().toLowerCase();
+    return this.read().find(account => account.name === normalized);
+  }
+
+  /**
+   * The password for an account, from the registry or its environment variable
+   * @param account The account
+   */
+  public static getPassword(account: AccountConfig): string | undefined {
+    return account.password ?? (account.passwordEnv ? process.env[account.passwordEnv] : undefined);
+  }
+
+  /**
+   * Whether a tool may be used with an account. Accounts that are not in the
+   * registry, such as sessions from instagram_login, allow every tool.
+   * @param name The account name
+   * @param tool The tool name
+   */
+  public static isToolAllowed(name: string, tool: string): boolean {
+    const account = this.get(name);
+    if (!account?.allowedTools) {
+      return true;
+    }
+    return account.allowedTools.some(pattern =>
+      pattern.endsWith('*') ? tool.startsWith(pattern.slice(0, -1)) : tool === pattern);
+  }
+
+  /**
+   * Make sure a proxy URL is one the Instagram client can use
+   * @param proxy The proxy URL
+   * @param where Where the URL came from, for the error message
+   * @throws When the URL does not parse or has an unsupported scheme
+   */
+  public static checkProxyUrl(proxy: string, where: string = 'proxy'): void {
+    let url: URL;
+    try {
+      url = new URL(proxy);
+    } catch {
+      throw new Error(`${where}: proxy is not a valid URL`);
+    }
+    if (!PROXY_PROTOCOLS.includes(url.protocol)) {
+      throw new Error(`${where}: proxy must be an http, https, socks4 or socks5 URL, got ${url.protocol}`);
+    }
+  }
+
+  private static read(): AccountConfig[] {
+    let raw = process.env.IG_ACCOUNTS;
+    let source = 'IG_ACCOUNTS';
+    if (!raw) {
+      const file = this.getAccountsFile();
+      if (!fs.existsSync(file)) {
+        return [];
+      }
+      raw = fs.readFileSync(file, 'utf8');
+      source = file;
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error: any) {
+      throw new Error(`Account registry ${source} is not valid JSON: ${error.message}`);
+    }
+    // Accept either a bare array or { "accounts": [...] }
+    const entries = Array.isArray(parsed) ? parsed : parsed?.accounts;
+    if (!Array.isArray(entries)) {
+      throw new Error(`Account registry ${source} must be an array of accounts or { "accounts": [...] }`);
+    }
+    const baseDir = source === 'IG_ACCOUNTS' ? process.cwd() : path.dirname(path.resolve(source));
+    const accounts = entries.map((entry, index) => this.validate(entry, `${source} entry ${index}`, baseDir));
+
+    const names = new Set<string>();
+    accounts.forEach(account => {
+      if (names.has(account.name)) {
+        throw new Error(`Account registry ${source} lists "${account.name}" more than once`);
+      }
+      names.add(account.name);
+    });
+    return accounts;
+  }
+
+  private static validate(entry: any, where: string, baseDir: string): AccountConfig {
+    if (typeof entry?.name !== 'string' || !NAME_PATTERN.test(entry.name.trim())) {
+      throw new Error(`${where}: name must be 1-64 letters, digits, dots, dashes or underscores`);
+    }
+    for (const key of ['username', 'password', 'passwordEnv', 'sessionFile', 'proxy', 'deviceSeed', 'locale', 'userAgent']) {
+      if (entry[key] !== undefined && typeof entry[key] !== 'string') {
+        throw new Error(`${where}: ${key} must be a string`);
+      }
+    }
+    if (entry.proxy !== undefined) {
+      this.checkProxyUrl(entry.proxy, where);
+    }
+    if (entry.locale !== undefined && !LOCALE_PATTERN.test(entry.locale)) {
+      throw new Error(`${where}: locale must look like en_US`);
+    }
+    if (entry.timezoneOffset !== undefined && !(Number.isInteger(entry.timezoneOffset) && entry.timezoneOffset >= -43200 && entry.timezoneOffset <= 50400)) {
+      throw new Error(`${where}: timezoneOffset must be whole seconds from UTC, between -43200 and 50400`);
+    }
+    if (entry.allowedTools !== undefined && !(Array.isArray(entry.allowedTools) && entry.allowedTools.every((tool: any) => typeof tool === 'string'))) {
+      throw new Error(`${where}: allowedTools must be an array of tool names`);
+    }
+    if (entry.requireApproval !== undefined && typeof entry.requireApproval !== 'boolean') {
+      throw new Error(`${where}: requireApproval must be true or false`);
+    }
+    if (!entry.sessionFile && !(entry.username && (entry.password || entry.passwordEnv))) {
+      throw new Error(`${where}: give a username with a password or passwordEnv, or a sessionFile`);
+    }
+    return {
+      name: entry.name.trim().toLowerCase(),
+      username: entry.username,
+      password: entry.password,
+      passwordEnv: entry.passwordEnv,
+      // Relative session files are resolved against the registry file
+      sessionFile: entry.sessionFile ? path.resolve(baseDir, entry.sessionFile) : undefined,
+      proxy: entry.proxy,
+      deviceSeed: entry.deviceSeed,
+      locale: entry.locale,
+      timezoneOffset: entry.timezoneOffset,
+      userAgent: entry.userAgent,
+      allowedTools: entry.allowedTools,
+      requireApproval: entry.requireApproval
+    };
+  }
+}
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+
+export type AuditOutcome = 'success' | 'failure';
+
+/**
+ * One state-changing tool call
+ */
+export interface AuditEntry {
+  timestamp: string;
+  account: string | null;
+  tool: string;
+  // Arguments with secrets and inline media removed
+  args: Record<string, any>;
+  mcpSession: { id: string; transport: string; remoteAddress?: string; userAgent?: string };
+  client: { name: string; version: string } | null;
+  outcome: AuditOutcome;
+  mediaId: string | null;
+  draftId?: string;
+  // The call repeated an idempotency key and returned the earlier result without publishing again
+  replayed?: boolean;
+  // Set on entries written by the background scheduler
+  scheduledId?: string;
+  error?: string;
+  durationMs: number;
+}
+
+export interface AuditFilter {
+  account?: string;
+  tool?: string;
+  from?: string;
+  to?: string;
+  outcome?: AuditOutcome;
+  limit?: number;
+}
+
+/**
+ * Append-only log of state-changing actions, one JSON entry per line
+ */
+export class AuditService {
+  /**
+   * Path of the audit log
+   */
+  public static getLogFile(): string {
+    return process.env.IG_AUDIT_FILE || path.join(process.cwd(), 'data', 'audit.jsonl');
+  }
+
+  /**
+   * Add an entry to the end of the log
+   * @param entry The entry to record
+   */
+  public static append(entry: AuditEntry): void {
+    const file = this.getLogFile();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, JSON.stringify(entry) + '\n');
+  }
+
+  /**
+   * Find entries matching a filter
+   * @param filter Account, tool, time range (ISO dates, inclusive) and outcome to match
+   * @returns Matching entries, newest first, up to filter.limit
+   */
+  public static query(filter: AuditFilter = {}): AuditEntry[] {
+    const from = filter.from ? new Date(filter.from).getTime() : -Infinity;
+    const to = filter.to ? new Date(filter.to).getTime() : Infinity;
+    const matches = this.read().filter(entry => {
+      const time = new Date(entry.timestamp).getTime();
+      return (!filter.account || entry.account === filter.account)
+        && (!filter.tool || entry.tool === filter.tool)
+        && (!filter.outcome || entry.outcome === filter.outcome)
+        && time >= from && time <= to;
+    });
+    return matches.reverse().slice(0, filter.limit ?? matches.length);
+  }
+
+  private static read(): AuditEntry[] {
+    const file = this.getLogFile();
+    if (!fs.existsSync(file)) {
+      return [];
+    }
+    const entries: AuditEntry[] = [];
+    for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // A line cut short by a crash; the entries around it are still valid
+      }
+    }
+    return entries;
+  }
+}
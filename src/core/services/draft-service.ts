@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+
+export type DraftStatus = 'pending' | 'publishing' | 'published' | 'rejected' | 'failed';
+
+export type DraftKind = 'photo' | 'video' | 'carousel' | 'story' | 'reel';
+
+/**
+ * A post held back until an approver publishes or rejects it
+ */
+export interface Draft {
+  id: string;
+  account: string;
+  kind: DraftKind;
+  caption: string | null;
+  // The upload call to make on approval, with file paths inside the draft's media directory
+  request: Record<string, any>;
+  preview: { text: string; thumbnail: string | null };
+  status: DraftStatus;
+  decidedBy?: string;
+  decidedAt?: string;
+  reason?: string;
+  lastError?: string;
+  result?: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewDraft = Pick<Draft, 'id' | 'account' | 'kind' | 'caption' | 'request' | 'preview'>;
+
+/**
+ * Store for drafts, kept in a JSON file with each draft's media in its own directory
+ */
+export class DraftService {
+  /**
+   * Path of the drafts file
+   */
+  public static getDraftsFile(): string {
+    return process.env.IG_DRAFTS_FILE || path.join(process.cwd(), 'data', 'drafts.json');
+  }
+
+  /**
+   * Directory holding a draft's media files
+   * @param id The draft id
+   */
+  public static getMediaDir(id: string): string {
+    const root = process.env.IG_DRAFTS_DIR || path.join(process.cwd(), 'data', 'drafts');
+    return path.join(root, id);
+  }
+
+  /**
+   * Save a new pending draft
+   * @param draft The draft, with its media already in getMediaDir(id)
+   * @returns The stored draft
+   */
+  public static add(draft: NewDraft): Draft {
+    const now = new Date().toISOString();
+    const item: Draft = {
+      ...draft,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now
+    };
+    this.write([...this.read(), item]);
+    return item;
+  }
+
+  /**
+   * List drafts, optionally filtered
+   * @param filter Account and/or status to match
+   * @returns Matching drafts, newest first
+   */
+  public static list(filter: { account?: string; status?: DraftStatus } = {}): Draft[] {
+    return this.read()
+      .filter(item => !filter.account || item.account === filter.account)
+      .filter(item => !filter.status || item.status === filter.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Get a single draft
+   * @param id The draft id
+   */
+  public static get(id: string): Draft | undefined {
+    return this.read().find(item => item.id === id);
+  }
+
+  /**
+   * Apply changes to a draft
+   * @param id The draft id
+   * @param changes Fields to overwrite
+   * @returns The updated draft
+   */
+  public static update(id: string, changes: Partial<Draft>): Draft {
+    const items = this.read();
+    const index = items.findIndex(item => item.id === id);
+    if (index === -1) {
+      throw new Error(`Draft not found: ${id}`);
+    }
+    items[index] = { ...items[index], ...changes, id, updatedAt: new Date().toISOString() };
+    this.write(items);
+    return items[index];
+  }
+
+  /**
+   * Delete a draft's media once it has been published or rejected
+   * @param id The draft id
+   */
+  public static removeMedia(id: string): void {
+    fs.rmSync(this.getMediaDir(id), { recursive: true, force: true });
+  }
+
+  private static read(): Draft[] {
+    const file = this.getDraftsFile();
+    if (!fs.existsSync(file)) {
+      return [];
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as Draft[];
+  }
+
+  private static write(items: Draft[]): void {
+    const file = this.getDraftsFile();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Write to a temp file and rename so a crash never leaves a half-written store
+    const tempFile = `${file}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(items, null, 2));
+    fs.renameSync(tempFile, file);
+  }
+}
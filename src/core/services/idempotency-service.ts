@@ -0,0 +1,106 @@
+import fs from 'fs';
+import path from 'path';
+
+export type IdempotencyStatus = 'in_progress' | 'completed';
+
+/**
+ * What a publishing call with an idempotency key started or produced
+ */
+export interface IdempotencyRecord {
+  // Tool, account and caller-supplied key, joined
+  key: string;
+  // Hash of the call's arguments, to catch a key reused for a different post
+  fingerprint: string;
+  status: IdempotencyStatus;
+  // Server process that started the call, to tell a live call from one cut off by a restart
+  instanceId: string;
+  result?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+export type IdempotencyClaim =
+  | { claimed: true }
+  | { claimed: false; record: IdempotencyRecord };
+
+/**
+ * Record of idempotency keys and their results, stored as a JSON file.
+ * Entries are dropped once they are older than the retention window.
+ */
+export class IdempotencyService {
+  /**
+   * Path of the key store
+   */
+  public static getStoreFile(): string {
+    return process.env.IG_IDEMPOTENCY_FILE || path.join(process.cwd(), 'data', 'idempotency.json');
+  }
+
+  /**
+   * How long keys are remembered, from IG_IDEMPOTENCY_TTL_MS (default 24 hours)
+   */
+  public static getRetentionMs(): number {
+    return parseInt(process.env.IG_IDEMPOTENCY_TTL_MS || String(24 * 60 * 60 * 1000), 10);
+  }
+
+  /**
+   * Reserve a key for a new call, unless it is already known
+   * @param key The scoped key
+   * @param fingerprint Hash of the call's arguments
+   * @param instanceId Id of this server process
+   * @returns Whether the caller may go ahead, or the existing record
+   */
+  public static claim(key: string, fingerprint: string, instanceId: string): IdempotencyClaim {
+    const records = this.read();
+    const existing = records.find(record => record.key === key);
+    if (existing) {
+      return { claimed: false, record: existing };
+    }
+    records.push({ key, fingerprint, status: 'in_progress', instanceId, createdAt: new Date().toISOString() });
+    this.write(records);
+    return { claimed: true };
+  }
+
+  /**
+   * Store the result of a claimed call
+   * @param key The scoped key
+   * @param result The tool's response
+   */
+  public static complete(key: string, result: string): void {
+    const records = this.read();
+    const record = records.find(entry => entry.key === key);
+    if (!record) {
+      return;
+    }
+    record.status = 'completed';
+    record.result = result;
+    record.completedAt = new Date().toISOString();
+    this.write(records);
+  }
+
+  /**
+   * Forget a key, so a failed call can be retried with it
+   * @param key The scoped key
+   */
+  public static release(key: string): void {
+    this.write(this.read().filter(record => record.key !== key));
+  }
+
+  private static read(): IdempotencyRecord[] {
+    const file = this.getStoreFile();
+    if (!fs.existsSync(file)) {
+      return [];
+    }
+    const cutoff = Date.now() - this.getRetentionMs();
+    return (JSON.parse(fs.readFileSync(file, 'utf8')) as IdempotencyRecord[])
+      .filter(record => new Date(record.createdAt).getTime() > cutoff);
+  }
+
+  private static write(records: IdempotencyRecord[]): void {
+    const file = this.getStoreFile();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Write to a temp file and rename so a crash never leaves a half-written store
+    const tempFile = `${file}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(records, null, 2));
+    fs.renameSync(tempFile, file);
+  }
+}
@@ -1,2 +1,10 @@
 // Export all services
 export * from './greeting-service.js';
+export * from './session-service.js';
+export * from './schedule-service.js';
+export * from './user-cache-service.js';
+export * from './snapshot-service.js';
+export * from './account-service.js';
+export * from './draft-service.js';
+export * from './idempotency-service.js';
+export * from './audit-service.js';
@@ -0,0 +1,167 @@
+import fs from 'fs';
+import path from 'path';
+
+export type ScheduledPostStatus = 'pending' | 'publishing' | 'published' | 'failed' | 'cancelled' | 'interrupted';
+
+/**
+ * A post waiting in, or already processed by, the publishing queue
+ */
+export interface ScheduledPost {
+  id: string;
+  account: string;
+  type: 'photo' | 'video';
+  // Files inside the item's media directory, stored and checked when the post was queued
+  mediaPath: string;
+  coverImagePath?: string;
+  caption?: string;
+  publishAt: string;
+  status: ScheduledPostStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  result?: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewScheduledPost = Pick<ScheduledPost, 'id' | 'account' | 'type' | 'mediaPath' | 'coverImagePath' | 'caption' | 'publishAt'>;
+
+/**
+ * Durable queue of scheduled posts, stored as a JSON file with each post's
+ * media in its own directory
+ */
+export class ScheduleService {
+  /**
+   * Path of the queue file
+   */
+  public static getQueueFile(): string {
+    return process.env.IG_SCHEDULE_FILE || path.join(process.cwd(), 'data', 'schedule.json');
+  }
+
+  /**
+   * Directory holding a queued post's media files
+   * @param id The queue item id
+   */
+  public static getMediaDir(id: string): string {
+    const root = process.env.IG_SCHEDULE_MEDIA_DIR || path.join(process.cwd(), 'data', 'scheduled');
+    return path.join(root, id);
+  }
+
+  /**
+   * Add a post to the queue
+   * @param post The post to schedule, with its media already in getMediaDir(id)
+   * @returns The stored queue item
+   */
+  public static add(post: NewScheduledPost): ScheduledPost {
+    const now = new Date().toISOString();
+    const item: ScheduledPost = {
+      ...post,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.write([...this.read(), item]);
+    return item;
+  }
+
+  /**
+   * List queue items, optionally filtered
+   * @param filter Account and/or status to match
+   * @returns Matching items ordered by publish time
+   */
+  public static list(filter: { account?: string; status?: ScheduledPostStatus } = {}): ScheduledPost[] {
+    return this.read()
+      .filter(item => !filter.account || item.account === filter.account)
+      .filter(item => !filter.status || item.status === filter.status)
+      .sort((a, b) => a.publishAt.localeCompare(b.publishAt));
+  }
+
+  /**
+   * Get a single queue item
+   * @param id The queue item id
+   */
+  public static get(id: string): ScheduledPost | undefined {
+    return this.read().find(item => item.id === id);
+  }
+
+  /**
+   * Apply changes to a queue item
+   * @param id The queue item id
+   * @param changes Fields to overwrite
+   * @returns The updated item
+   */
+  public static update(id: string, changes: Partial<ScheduledPost>): ScheduledPost {
+    const items = this.read();
+    const index = items.findIndex(item => item.id === id);
+    if (index === -1) {
+      throw new Error(`Scheduled post not found: ${id}`);
+    }
+    items[index] = { ...items[index], ...changes, id, updatedAt: new Date().toISOString() };
+    this.write(items);
+    return items[index];
+  }
+
+  /**
+   * Delete a queued post's media once it has been published
+   * @param id The queue item id
+   */
+  public static removeMedia(id: string): void {
+    fs.rmSync(this.getMediaDir(id), { recursive: true, force: true });
+  }
+
+  /**
+   * Items whose publish (or retry) time has passed
+   * @param now Reference time
+   */
+  public static due(now: Date = new Date()): ScheduledPost[] {
+    return this.list({ status: 'pending' }).filter(item => this.isDue(item, now));
+  }
+
+  /**
+   * Whether an item is pending and its publish (or retry) time has passed
+   * @param item The queue item
+   * @param now Reference time
+   */
+  public static isDue(item: ScheduledPost, now: Date = new Date()): boolean {
+    return item.status === 'pending' && new Date(item.nextAttemptAt || item.publishAt).getTime() <= now.getTime();
+  }
+
+  /**
+   * Flag items left in "publishing" by an interrupted run. The post may
+   * already be live, so they are not retried until someone reschedules them.
+   * @returns The number of items flagged
+   */
+  public static markInterrupted(): number {
+    const items = this.read();
+    const interrupted = items.filter(item => item.status === 'publishing');
+    if (interrupted.length === 0) {
+      return 0;
+    }
+    const now = new Date().toISOString();
+    interrupted.forEach(item => {
+      item.status = 'interrupted';
+      item.lastError = 'Interrupted by a server restart while publishing; check the account before rescheduling';
+      item.updatedAt = now;
+    });
+    this.write(items);
+    return interrupted.length;
+  }
+
+  private static read(): ScheduledPost[] {
+    const file = this.getQueueFile();
+    if (!fs.existsSync(file)) {
+      return [];
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as ScheduledPost[];
+  }
+
+  private static write(items: ScheduledPost[]): void {
+    const file = this.getQueueFile();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Write to a temp file and rename so a crash never leaves a half-written queue
+    const tempFile = `${file}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(items, null, 2));
+    fs.renameSync(tempFile, file);
+  }
+}
@@ -0,0 +1,174 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * A persisted Instagram session for one account. Passwords are never stored;
+ * an expired session is renewed with the account registry's credentials.
+ */
+export interface SessionRecord {
+  account: string;
+  username: string;
+  state: Record<string, any>;
+  savedAt: string;
+}
+
+interface EncryptedPayload {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const ACCOUNT_PATTERN = /^[a-zA-Z0-9._-]{1,64}$/;
+
+let keyFileWarned = false;
+
+/**
+ * Encrypted on-disk store for serialized IgApiClient state, keyed by account
+ */
+export class SessionService {
+  /**
+   * Directory holding the session files
+   */
+  public static getSessionDir(): string {
+    return process.env.IG_SESSION_DIR || path.join(process.cwd(), 'sessions');
+  }
+
+  /**
+   * Key file used when IG_SESSION_SECRET is not set. It lives outside the
+   * session directory so a copy of the sessions alone cannot be decrypted.
+   */
+  public static getKeyFile(): string {
+    return process.env.IG_SESSION_KEY_FILE || path.join(os.homedir(), '.config', 'instagram-mcp', 'session.key');
+  }
+
+  /**
+   * Check that an account handle is safe to use as a file name
+   * @param account The account handle
+   * @returns The normalized account handle
+   */
+  public static normalizeAccount(account: string): string {
+    const normalized = account.trim().toLowerCase();
+    if (!ACCOUNT_PATTERN.test(normalized)) {
+      throw new Error(`Invalid account handle: ${account}`);
+    }
+    return normalized;
+  }
+
+  /**
+   * Persist a session record
+   * @param record The session to store
+   */
+  public static async save(record: SessionRecord): Promise<void> {
+    const account = this.normalizeAccount(record.account);
+    const payload = this.encrypt(JSON.stringify({ ...record, account }));
+    await fs.promises.mkdir(this.getSessionDir(), { recursive: true, mode: 0o700 });
+    await fs.promises.writeFile(this.sessionPath(account), JSON.stringify(payload), { mode: 0o600 });
+  }
+
+  /**
+   * Load a session record
+   * @param account The account handle
+   * @returns The stored session, or null when none exists
+   */
+  public static async load(account: string): Promise<SessionRecord | null> {
+    const filePath = this.sessionPath(this.normalizeAccount(account));
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    const payload = JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as EncryptedPayload;
+    const { password, ...record } = JSON.parse(this.decrypt(payload)) as SessionRecord & { password?: string };
+    if (password !== undefined) {
+      // Written by an older version that kept the password; drop it from disk
+      await this.save(record);
+    }
+    return record;
+  }
+
+  /**
+   * Remove a stored session
+   * @param account The account handle
+   * @returns Whether a session was removed
+   */
+  public static async remove(account: string): Promise<boolean> {
+    const filePath = this.sessionPath(this.normalizeAccount(account));
+    if (!fs.existsSync(filePath)) {
+      return false;
+    }
+    await fs.promises.unlink(filePath);
+    return true;
+  }
+
+  /**
+   * List the account handles that have a stored session
+   */
+  public static async list(): Promise<string[]> {
+    const dir = this.getSessionDir();
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+    const files = await fs.promises.readdir(dir);
+    return files
+      .filter(file => file.endsWith('.session'))
+      .map(file => file.slice(0, -'.session'.length));
+  }
+
+  private static sessionPath(account: string): string {
+    return path.join(this.getSessionDir(), `${account}.session`);
+  }
+
+  /**
+   * Derive the encryption key from IG_SESSION_SECRET, or from the key file
+   * generated on first use when no secret is configured
+   */
+  private static getKey(): Buffer {
+    const secret = process.env.IG_SESSION_SECRET || this.readKeyFile();
+    return scryptSync(secret, 'instagram-session', 32);
+  }
+
+  private static readKeyFile(): string {
+    const keyPath = path.resolve(this.getKeyFile());
+    const sessionDir = path.resolve(this.getSessionDir());
+    const relative = path.relative(sessionDir, keyPath);
+    if (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative)) {
+      throw new Error(`IG_SESSION_KEY_FILE (${keyPath}) must be outside the session directory ${sessionDir}`);
+    }
+
+    if (!fs.existsSync(keyPath)) {
+      fs.mkdirSync(path.dirname(keyPath), { recursive: true, mode: 0o700 });
+      // Older versions kept the key beside the sessions; move it so they still decrypt
+      const legacyPath = path.join(sessionDir, '.key');
+      if (fs.existsSync(legacyPath)) {
+        fs.writeFileSync(keyPath, fs.readFileSync(legacyPath), { mode: 0o600 });
+        fs.unlinkSync(legacyPath);
+      } else {
+        fs.writeFileSync(keyPath, randomBytes(32).toString('hex'), { mode: 0o600 });
+      }
+    }
+
+    if (!keyFileWarned) {
+      keyFileWarned = true;
+      console.warn(`WARNING: IG_SESSION_SECRET is not set. Instagram sessions are encrypted with the key in ${keyPath}; anyone who can read that file and the session directory can take over the accounts. Set IG_SESSION_SECRET from a secret store instead.`);
+    }
+    return fs.readFileSync(keyPath, 'utf8').trim();
+  }
+
+  private static encrypt(plaintext: string): EncryptedPayload {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.getKey(), iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+  }
+
+  private static decrypt(payload: EncryptedPayload): string {
+    const decipher = createDecipheriv('aes-256-gcm', this.getKey(), Buffer.from(payload.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+    const data = Buffer.concat([decipher.update(Buffer.from(payload.data, 'base64')), decipher.final()]);
+    return data.toString('utf8');
+  }
+}
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+
+export type ConnectionType = 'followers' | 'following';
+
+export interface ConnectionUser {
+  pk: string;
+  username: string;
+  full_name: string;
+  is_private: boolean;
+  is_verified: boolean;
+}
+
+/**
+ * A saved copy of an account's followers or followings at one point in time
+ */
+export interface ConnectionSnapshot {
+  id: string;
+  userId: string;
+  type: ConnectionType;
+  takenAt: string;
+  complete: boolean;
+  users: ConnectionUser[];
+}
+
+export interface SnapshotDiff {
+  added: ConnectionUser[];
+  removed: ConnectionUser[];
+}
+
+/**
+ * Store for follower and following snapshots, one JSON file per snapshot
+ */
+export class SnapshotService {
+  /**
+   * Directory holding the snapshot files
+   */
+  public static getSnapshotDir(): string {
+    return process.env.IG_SNAPSHOT_DIR || path.join(process.cwd(), 'data', 'snapshots');
+  }
+
+  /**
+   * Save a new snapshot
+   * @param userId The account the list belongs to
+   * @param type Followers or following
+   * @param users The users in the list
+   * @param complete Whether the whole list was read
+   * @returns The stored snapshot
+   */
+  public static save(userId: string, type: ConnectionType, users: ConnectionUser[], complete: boolean = true): ConnectionSnapshot {
+    const takenAt = new Date().toISOString();
+    const snapshot: ConnectionSnapshot = {
+      id: `${userId}-${type}-${takenAt.replace(/[:.]/g, '-')}`,
+      userId,
+      type,
+      takenAt,
+      complete,
+      users
+    };
+    fs.mkdirSync(this.getSnapshotDir(), { recursive: true });
+    fs.writeFileSync(this.snapshotPath(snapshot.id), JSON.stringify(snapshot));
+    return snapshot;
+  }
+
+  /**
+   * Load a snapshot by id
+   * @param id The snapshot id
+   */
+  public static load(id: string): ConnectionSnapshot | undefined {
+    if (!/^[\w-]+$/.test(id) || !fs.existsSync(this.snapshotPath(id))) {
+      return undefined;
+    }
+    return JSON.parse(fs.readFileSync(this.snapshotPath(id), 'utf8')) as ConnectionSnapshot;
+  }
+
+  /**
+   * List the snapshots of one account's list, oldest first
+   * @param userId The account the list belongs to
+   * @param type Followers or following
+   */
+  public static list(userId: string, type: ConnectionType): ConnectionSnapshot[] {
+    const dir = this.getSnapshotDir();
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+    return fs.readdirSync(dir)
+      .filter(file => file.startsWith(`${userId}-${type}-`) && file.endsWith('.json'))
+      .sort()
+      .map(file => this.load(file.slice(0, -'.json'.length)))
+      .filter((snapshot): snapshot is ConnectionSnapshot => snapshot !== undefined);
+  }
+
+  /**
+   * Most recent complete snapshot of one account's list
+   * @param userId The account the list belongs to
+   * @param type Followers or following
+   */
+  public static latest(userId: string, type: ConnectionType): ConnectionSnapshot | undefined {
+    return this.list(userId, type).filter(snapshot => snapshot.complete).pop();
+  }
+
+  /**
+   * Compare two user lists by pk
+   * @param previous The older list
+   * @param current The newer list
+   * @returns Users present only in the newer list, and only in the older one
+   */
+  public static diff(previous: ConnectionUser[], current: ConnectionUser[]): SnapshotDiff {
+    const previousIds = new Set(previous.map(user => user.pk));
+    const currentIds = new Set(current.map(user => user.pk));
+    return {
+      added: current.filter(user => !previousIds.has(user.pk)),
+      removed: previous.filter(user => !currentIds.has(user.pk))
+    };
+  }
+
+  private static snapshotPath(id: string): string {
+    return path.join(this.getSnapshotDir(), `${id}.json`);
+  }
+}
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+
+interface CachedUser {
+  pk: string;
+  resolvedAt: string;
+}
+
+// Usernames can be released and re-registered, so entries expire
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Local cache of username to user id (pk) resolutions, stored as a JSON file
+ */
+export class UserCacheService {
+  /**
+   * Path of the cache file
+   */
+  public static getCacheFile(): string {
+    return process.env.IG_USER_CACHE_FILE || path.join(process.cwd(), 'data', 'user-cache.json');
+  }
+
+  /**
+   * Look up a cached user id
+   * @param username The username to resolve
+   * @returns The user id, or undefined when missing or expired
+   */
+  public static get(username: string): string | undefined {
+    const entry = this.read()[username.toLowerCase()];
+    if (!entry || Date.now() - new Date(entry.resolvedAt).getTime() > CACHE_TTL_MS) {
+      return undefined;
+    }
+    return entry.pk;
+  }
+
+  /**
+   * Cache one or more resolved user ids
+   * @param users Username and pk pairs
+   */
+  public static set(users: { username: string; pk: string | number }[]): void {
+    if (users.length === 0) {
+      return;
+    }
+    const cache = this.read();
+    const resolvedAt = new Date().toISOString();
+    users.forEach(user => {
+      cache[user.username.toLowerCase()] = { pk: String(user.pk), resolvedAt };
+    });
+    const file = this.getCacheFile();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(cache, null, 2));
+  }
+
+  private static read(): Record<string, CachedUser> {
+    const file = this.getCacheFile();
+    if (!fs.existsSync(file)) {
+      return {};
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as Record<string, CachedUser>;
+  }
+}
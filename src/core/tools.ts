@@ -2,6 +2,18 @@ import { FastMCP } from "fastmcp";
 import { z } from "zod";
 import * as services from "./services/index.js";
 import { instagramTools } from "../tools/instagramTools.js";
+import { scheduleTools } from "../tools/scheduleTools.js";
+import { audienceTools } from "../tools/audienceTools.js";
+import { commentTools } from "../tools/commentTools.js";
+import { directTools } from "../tools/directTools.js";
+import { mediaTools } from "../tools/mediaTools.js";
+import { analyticsTools } from "../tools/analyticsTools.js";
+import { exportTools } from "../tools/exportTools.js";
+import { accountTools } from "../tools/accountTools.js";
+import { draftTools } from "../tools/draftTools.js";
+import { withAccountPolicy } from "../tools/credentials.js";
+import { withIdempotency } from "../tools/idempotency.js";
+import { auditTools, withAudit } from "../tools/auditTools.js";
 
 /**
  * Register all tools with the MCP server
@@ -267,8 +279,60 @@ export function registerTools(server: FastMCP) {
     }
   });
 
-  // Register Instagram tools
+  // Register Instagram tools. Calls naming a registry account are limited to its allowedTools,
+  // publishing calls with an idempotencyKey are only made once, and calls of tools marked
+  // audited are written to the audit log.
   instagramTools.forEach(tool => {
-    server.addTool(tool);
+    server.addTool(withAudit(withAccountPolicy(withIdempotency(tool))));
+  });
+
+  // Register scheduled post tools
+  scheduleTools.forEach(tool => {
+    server.addTool(withAudit(withAccountPolicy(withIdempotency(tool))));
+  });
+
+  // Register follower and following tools
+  audienceTools.forEach(tool => {
+    server.addTool(withAudit(withAccountPolicy(tool)));
+  });
+
+  // Register comment management tools
+  commentTools.forEach(tool => {
+    server.addTool(withAudit(withAccountPolicy(tool)));
+  });
+
+  // Register direct message tools
+  directTools.forEach(tool => {
+    server.addTool(withAudit(withAccountPolicy(tool)));
+  });
+
+  // Register post editing, archiving and deletion tools
+  mediaTools.forEach(tool => {
+    server.addTool(withAudit(withAccountPolicy(tool)));
+  });
+
+  // Register analytics tools
+  analyticsTools.forEach(tool => {
+    server.addTool(withAudit(withAccountPolicy(tool)));
+  });
+
+  // Register account archive export tools
+  exportTools.forEach(tool => {
+    server.addTool(withAudit(withAccountPolicy(tool)));
+  });
+
+  // Register account registry tools
+  accountTools.forEach(tool => {
+    server.addTool(withAudit(tool));
+  });
+
+  // Register draft review tools; approving and rejecting need an approver token
+  draftTools.forEach(tool => {
+    server.addTool(withAudit(tool));
+  });
+
+  // Register audit log tools
+  auditTools.forEach(tool => {
+    server.addTool(withAudit(tool));
   });
 }
\ No newline at end of file
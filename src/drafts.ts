@@ -0,0 +1,280 @@
+import { randomUUID, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { AccountService, DraftService, SessionService } from './core/services/index.js';
+import type { Draft, DraftKind } from './core/services/index.js';
+import { getSessionUsername, uploadAlbum, uploadPhoto, uploadReel, uploadStory, uploadVideo, withSession } from './instagram.js';
+import type { AlbumItemFile, InstagramClient, PostDetails, PublishResult, StoryUploadOptions } from './instagram.js';
+import { inspectMedia } from './preflight.js';
+
+/**
+ * One publishing call, described as data so it can be held as a draft and
+ * made later
+ */
+export type PublishRequest =
+  | { kind: 'photo'; filePath: string; caption?: string; details?: PostDetails }
+  | { kind: 'video'; filePath: string; coverImagePath: string; caption?: string; details?: PostDetails }
+  | { kind: 'carousel'; items: AlbumItemFile[]; caption?: string; location?: string }
+  | { kind: 'story'; options: StoryUploadOptions }
+  | { kind: 'reel'; filePath: string; coverImagePath: string; caption?: string; shareToFeed?: boolean };
+
+const PREVIEW_WIDTH = 320;
+
+export async function publishRequest(ig: InstagramClient, request: PublishRequest): Promise<PublishResult> {
+  switch (request.kind) {
+    case 'photo':
+      return uploadPhoto(ig, request.filePath, request.caption, request.details);
+    case 'video':
+      return uploadVideo(ig, request.filePath, request.coverImagePath, request.caption, request.details);
+    case 'carousel':
+      return uploadAlbum(ig, request.items, request.caption, request.location);
+    case 'story':
+      return uploadStory(ig, request.options);
+    case 'reel':
+      return uploadReel(ig, request.filePath, request.coverImagePath, request.caption, request.shareToFeed);
+  }
+}
+
+/**
+ * Copy of a request with every file path passed through `map`
+ */
+function mapFiles(request: PublishRequest, map: (filePath: string) => string): PublishRequest {
+  switch (request.kind) {
+    case 'photo':
+      return { ...request, filePath: map(request.filePath) };
+    case 'video':
+    case 'reel':
+      return { ...request, filePath: map(request.filePath), coverImagePath: map(request.coverImagePath) };
+    case 'carousel':
+      return {
+        ...request,
+        items: request.items.map(item => item.type === 'video'
+          ? { ...item, filePath: map(item.filePath), coverImagePath: map(item.coverImagePath) }
+          : { ...item, filePath: map(item.filePath) })
+      };
+    case 'story':
+      return {
+        ...request,
+        options: {
+          ...request.options,
+          filePath: map(request.options.filePath),
+          coverImagePath: request.options.coverImagePath ? map(request.options.coverImagePath) : undefined
+        }
+      };
+  }
+}
+
+function requestFiles(request: PublishRequest): string[] {
+  const files: string[] = [];
+  mapFiles(request, filePath => {
+    files.push(filePath);
+    return filePath;
+  });
+  return files;
+}
+
+function requestCaption(request: PublishRequest): string | null {
+  return request.kind === 'story' ? null : request.caption ?? null;
+}
+
+/**
+ * Whether publishing for an account has to go through a draft, either from
+ * IG_REQUIRE_APPROVAL (comma-separated names or usernames, or * for every
+ * account) or the requireApproval setting of a registry account. The target
+ * is resolved like withInstagram does, and registry accounts are also matched
+ * by their username, so a raw login or a session stored under another name
+ * cannot publish past the approval step.
+ * @param target The account handle, or the username of a raw login
+ */
+export async function requiresApproval(target: { account?: string; username?: string }): Promise<boolean> {
+  const listed = (process.env.IG_REQUIRE_APPROVAL || '').split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean);
+  if (listed.includes('*')) {
+    return true;
+  }
+
+  const names = new Set<string>();
+  const usernames = new Set<string>();
+  if (target.account) {
+    const handle = SessionService.normalizeAccount(target.account);
+    names.add(handle);
+    const configured = AccountService.get(handle)?.username;
+    for (const username of [await getSessionUsername(handle), configured]) {
+      if (username) {
+        usernames.add(username.trim().toLowerCase());
+      }
+    }
+  } else if (target.username) {
+    usernames.add(target.username.trim().toLowerCase());
+  } else {
+    return false;
+  }
+
+  if ([...names, ...usernames].some(name => listed.includes(name))) {
+    return true;
+  }
+  return AccountService.list().some(config => config.requireApproval &&
+    (names.has(config.name) || (config.username !== undefined && usernames.has(config.username.trim().toLowerCase()))));
+}
+
+async function renderPreview(draftId: string, account: string, request: PublishRequest, mediaDir: string) {
+  const lines = [`${request.kind} for ${account}`];
+  const caption = requestCaption(request);
+  if (caption) {
+    lines.push(`Caption: ${caption}`);
+  }
+  const details = request.kind === 'photo' || request.kind === 'video' ? request.details : undefined;
+  const tags = details?.usertags ?? (request.kind === 'carousel' ? request.items.flatMap(item => item.usertags || []) : []);
+  if (tags.length > 0) {
+    lines.push(`Tags: ${tags.map(tag => `@${tag.username.replace(/^@/, '')} (${tag.x}, ${tag.y})`).join(', ')}`);
+  }
+  const location = details?.location ?? (request.kind === 'carousel' ? request.location : undefined);
+  if (location) {
+    lines.push(`Location: ${location}`);
+  }
+  if (request.kind === 'story') {
+    const { link, mentions, hashtags } = request.options;
+    if (link) {
+      lines.push(`Link: ${link}`);
+    }
+    if (mentions?.length) {
+      lines.push(`Mentions: ${mentions.map(name => `@${name.replace(/^@/, '')}`).join(', ')}`);
+    }
+    if (hashtags?.length) {
+      lines.push(`Hashtags: ${hashtags.map(tag => `#${tag.replace(/^#/, '')}`).join(', ')}`);
+    }
+  }
+
+  const files = requestFiles(request);
+  let thumbnail: string | null = null;
+  for (const filePath of files) {
+    const info = await inspectMedia(filePath);
+    const duration = info.durationSec ? `, ${info.durationSec.toFixed(1)}s` : '';
+    lines.push(`File: ${path.basename(filePath)} (${info.kind}, ${info.format}, ${info.width}x${info.height}${duration}, ${Math.round(info.sizeBytes / 1024)} KB)`);
+    // The first image (a photo, or a video's cover) becomes the thumbnail
+    if (!thumbnail && info.kind === 'photo') {
+      thumbnail = path.join(mediaDir, 'preview.jpg');
+      await sharp(filePath).resize({ width: PREVIEW_WIDTH, withoutEnlargement: true }).jpeg({ quality: 80 }).toFile(thumbnail);
+    }
+  }
+  lines.push(`Draft id: ${draftId}`);
+  return { text: lines.join('\n'), thumbnail };
+}
+
+/**
+ * Hold a publishing call for approval. The media is copied into the draft's
+ * own directory, so the caller can clean up its temp files as usual.
+ * @param account Account name the post is for
+ * @param request The upload to make once approved
+ */
+export async function createDraft(account: string | undefined, request: PublishRequest): Promise<Draft> {
+  if (!account) {
+    throw new Error('Drafts need an account name (from the registry or instagram_login) so they can be published later');
+  }
+  const handle = SessionService.normalizeAccount(account);
+  const id = randomUUID();
+  const mediaDir = DraftService.getMediaDir(id);
+  fs.mkdirSync(mediaDir, { recursive: true });
+
+  try {
+    let index = 0;
+    const stored = mapFiles(request, filePath => {
+      const target = path.join(mediaDir, `${index++}-${path.basename(filePath)}`);
+      fs.copyFileSync(filePath, target);
+      return target;
+    });
+    const preview = await renderPreview(id, handle, stored, mediaDir);
+    return DraftService.add({
+      id,
+      account: handle,
+      kind: request.kind as DraftKind,
+      caption: requestCaption(request),
+      request: stored,
+      preview
+    });
+  } catch (error) {
+    DraftService.removeMedia(id);
+    throw error;
+  }
+}
+
+/**
+ * Resolve an approver token from IG_APPROVERS ("name:token" pairs,
+ * comma-separated) to the approver's name
+ * @throws When no approvers are configured or the token matches none of them
+ */
+export function authenticateApprover(token: string): string {
+  const approvers = (process.env.IG_APPROVERS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      return { name: entry.slice(0, separator), token: entry.slice(separator + 1) };
+    })
+    .filter(entry => entry.name && entry.token);
+  if (approvers.length === 0) {
+    throw new Error('No approvers configured; set IG_APPROVERS to name:token pairs');
+  }
+  const given = Buffer.from(token);
+  const match = approvers.find(entry => {
+    const expected = Buffer.from(entry.token);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  });
+  if (!match) {
+    throw new Error('Invalid approver token');
+  }
+  return match.name;
+}
+
+function pendingDraft(id: string): Draft {
+  const draft = DraftService.get(id);
+  if (!draft) {
+    throw new Error(`Draft not found: ${id}`);
+  }
+  // Failed drafts keep their media, so they can be approved again
+  if (draft.status !== 'pending' && draft.status !== 'failed') {
+    throw new Error(`Draft ${id} is ${draft.status}, not pending`);
+  }
+  return draft;
+}
+
+/**
+ * Publish a draft through its account's session
+ * @param id The draft id
+ * @param approver Name of the approver
+ */
+export async function approveDraft(id: string, approver: string): Promise<Draft> {
+  const draft = DraftService.update(pendingDraft(id).id, { status: 'publishing', decidedBy: approver, decidedAt: new Date().toISOString() });
+  try {
+    const result = await withSession(draft.account, ig => publishRequest(ig, draft.request as PublishRequest));
+    DraftService.removeMedia(id);
+    return DraftService.update(id, {
+      status: 'published',
+      result: result as Record<string, any>,
+      lastError: undefined,
+      preview: { ...draft.preview, thumbnail: null }
+    });
+  } catch (error: any) {
+    DraftService.update(id, { status: 'failed', lastError: error.message });
+    throw error;
+  }
+}
+
+/**
+ * Reject a draft and delete its media
+ * @param id The draft id
+ * @param approver Name of the approver
+ * @param reason Why it was rejected, for the record
+ */
+export function rejectDraft(id: string, approver: string, reason?: string): Draft {
+  const draft = pendingDraft(id);
+  DraftService.removeMedia(id);
+  return DraftService.update(id, {
+    status: 'rejected',
+    decidedBy: approver,
+    decidedAt: new Date().toISOString(),
+    reason,
+    preview: { ...draft.preview, thumbnail: null }
+  });
+}
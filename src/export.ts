@@ -0,0 +1,261 @@
+import fs from 'fs';
+import path from 'path';
+import { getCommentsPage, getCurrentUser, getUserFeedPage } from './instagram.js';
+import type { CommentSummary, InstagramClient } from './instagram.js';
+import { safeFetchToFile } from './tools/safeFetch.js';
+
+// Feed pages requested while walking back through the account's posts
+const EXPORT_PAGE_SIZE = 50;
+const COMMENT_PAGE_SIZE = 100;
+const MANIFEST_VERSION = 1;
+
+export interface ExportOptions {
+  includeComments: boolean;
+  maxCommentsPerPost: number;
+}
+
+/**
+ * One downloaded rendition of a photo or video
+ */
+export interface ExportedFile {
+  kind: 'image' | 'video';
+  // Position inside a carousel, 0 for single posts
+  index: number;
+  width: number | null;
+  height: number | null;
+  // Relative to the archive directory; null when the download failed
+  path: string | null;
+  error?: string;
+}
+
+export interface ExportedMedia {
+  id: string;
+  code: string;
+  media_type: number;
+  product_type: string | null;
+  taken_at: number;
+  taken_at_iso: string;
+  caption: string | null;
+  location: { pk: string; name: string; address: string | null; lat: number | null; lng: number | null } | null;
+  like_count: number;
+  comment_count: number;
+  comments: CommentSummary[];
+  files: ExportedFile[];
+  exportedAt: string;
+}
+
+export interface ExportManifest {
+  version: number;
+  account: { userId: string; username: string };
+  // taken_at of the newest post when the last run finished; later runs stop below it
+  newestTakenAt: number | null;
+  // failedDownloads counts the files still missing from the whole archive after the run
+  runs: { exportedAt: string; added: number; recoveredDownloads?: number; failedDownloads: number }[];
+  media: ExportedMedia[];
+}
+
+export interface ExportResult {
+  directory: string;
+  manifestPath: string;
+  added: number;
+  total: number;
+  // Files an earlier run failed to download that this run fetched
+  recoveredDownloads: number;
+  // Files still missing from the archive
+  failedDownloads: number;
+}
+
+/**
+ * Directory holding account archives, shared with the connection exports
+ */
+export function getExportDir(): string {
+  return process.env.IG_EXPORT_DIR || path.join(process.cwd(), 'exports');
+}
+
+function readManifest(manifestPath: string): ExportManifest | null {
+  if (!fs.existsSync(manifestPath)) {
+    return null;
+  }
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as ExportManifest;
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`Unsupported export manifest version ${manifest.version} in ${manifestPath}`);
+  }
+  return manifest;
+}
+
+function writeManifest(manifestPath: string, manifest: ExportManifest): void {
+  manifest.media.sort((a, b) => b.taken_at - a.taken_at);
+  // Write to a temp file and rename so a crash never leaves a half-written manifest
+  const tempFile = `${manifestPath}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(manifest, null, 2));
+  fs.renameSync(tempFile, manifestPath);
+}
+
+/**
+ * Every image and video rendition of a post, carousel children included
+ */
+function mediaVariants(item: any): { kind: 'image' | 'video'; index: number; url: string; width: number | null; height: number | null }[] {
+  const children: any[] = item.carousel_media?.length ? item.carousel_media : [item];
+  const seen = new Set<string>();
+  return children.flatMap((child, index) => [
+    ...(child.image_versions2?.candidates ?? []).map((candidate: any) => ({ kind: 'image' as const, candidate })),
+    ...(child.video_versions ?? []).map((candidate: any) => ({ kind: 'video' as const, candidate }))
+  ]
+    .filter(({ candidate }) => candidate?.url && !seen.has(candidate.url) && seen.add(candidate.url))
+    .map(({ kind, candidate }) => ({
+      kind,
+      index,
+      url: candidate.url,
+      width: candidate.width ?? null,
+      height: candidate.height ?? null
+    })));
+}
+
+function countFailed(item: ExportedMedia): number {
+  return item.files.filter(file => !file.path).length;
+}
+
+/**
+ * Download every rendition of a post, keeping the files an earlier run
+ * already saved
+ */
+async function downloadVariants(item: any, directory: string, previous: ExportedFile[] = []): Promise<ExportedFile[]> {
+  const mediaDir = path.join('media', item.code || String(item.id));
+  fs.mkdirSync(path.join(directory, mediaDir), { recursive: true });
+  const files: ExportedFile[] = [];
+  // One at a time, so an archive run does not look like a burst
+  for (const variant of mediaVariants(item)) {
+    const saved = previous.find(file => file.path
+      && file.kind === variant.kind
+      && file.index === variant.index
+      && file.width === variant.width
+      && file.height === variant.height
+      && !files.includes(file));
+    if (saved) {
+      files.push(saved);
+      continue;
+    }
+    const extension = path.extname(new URL(variant.url).pathname) || (variant.kind === 'video' ? '.mp4' : '.jpg');
+    const size = variant.width && variant.height ? `${variant.width}x${variant.height}` : 'original';
+    let name = `${variant.index}-${variant.kind}-${size}${extension}`;
+    for (let copy = 2; files.some(file => file.path === path.join(mediaDir, name)); copy++) {
+      name = `${variant.index}-${variant.kind}-${size}-${copy}${extension}`;
+    }
+    const relativePath = path.join(mediaDir, name);
+    const file = { kind: variant.kind, index: variant.index, width: variant.width, height: variant.height };
+    try {
+      await safeFetchToFile(variant.url, path.join(directory, relativePath), { kind: variant.kind === 'video' ? 'video' : 'photo' });
+      files.push({ ...file, path: relativePath });
+    } catch (error: any) {
+      files.push({ ...file, path: null, error: error.message });
+    }
+  }
+  return files;
+}
+
+async function collectComments(ig: InstagramClient, mediaId: string, limit: number): Promise<CommentSummary[]> {
+  const comments: CommentSummary[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await getCommentsPage(ig, mediaId, Math.min(COMMENT_PAGE_SIZE, limit - comments.length), cursor);
+    comments.push(...page.items);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor && comments.length < limit);
+  return comments;
+}
+
+async function exportItem(ig: InstagramClient, item: any, directory: string, options: ExportOptions): Promise<ExportedMedia> {
+  const location = item.location
+    ? {
+      pk: String(item.location.pk),
+      name: item.location.name,
+      address: item.location.address ?? null,
+      lat: item.location.lat ?? null,
+      lng: item.location.lng ?? null
+    }
+    : null;
+  return {
+    id: item.id,
+    code: item.code,
+    media_type: item.media_type,
+    product_type: item.product_type ?? null,
+    taken_at: item.taken_at,
+    taken_at_iso: new Date(item.taken_at * 1000).toISOString(),
+    caption: item.caption?.text ?? null,
+    location,
+    like_count: item.like_count ?? 0,
+    comment_count: item.comment_count ?? 0,
+    comments: options.includeComments && item.comment_count > 0 ? await collectComments(ig, item.id, options.maxCommentsPerPost) : [],
+    files: await downloadVariants(item, directory),
+    exportedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Archive the logged-in account's posts into exports/account-<username>,
+ * with the media files and a manifest.json describing them. A later run
+ * against the same archive only fetches posts newer than the last one, and
+ * downloads again the files earlier runs could not.
+ */
+export async function exportAccount(ig: InstagramClient, options: ExportOptions): Promise<ExportResult> {
+  const user = await getCurrentUser(ig);
+  const directory = path.join(getExportDir(), `account-${user.username}`);
+  const manifestPath = path.join(directory, 'manifest.json');
+  fs.mkdirSync(directory, { recursive: true });
+
+  const manifest: ExportManifest = readManifest(manifestPath) ?? {
+    version: MANIFEST_VERSION,
+    account: { userId: String(user.pk), username: user.username },
+    newestTakenAt: null,
+    runs: [],
+    media: []
+  };
+  const known = new Map(manifest.media.map(item => [item.id, item]));
+  const since = manifest.newestTakenAt ?? -Infinity;
+  // Signed media URLs expire, so failed files are fetched again from the feed: read back far enough to reach them
+  const readBackTo = Math.min(since, ...manifest.media.filter(item => countFailed(item) > 0).map(item => item.taken_at));
+
+  let added = 0;
+  let recoveredDownloads = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await getUserFeedPage(ig, String(user.pk), EXPORT_PAGE_SIZE, cursor);
+    for (const item of page.items) {
+      const exported = known.get(item.id);
+      if (!exported && item.taken_at >= since) {
+        const entry = await exportItem(ig, item, directory, options);
+        manifest.media.push(entry);
+        known.set(entry.id, entry);
+        added++;
+      } else if (exported && countFailed(exported) > 0) {
+        const failed = countFailed(exported);
+        exported.files = await downloadVariants(item, directory, exported.files);
+        recoveredDownloads += failed - countFailed(exported);
+      } else {
+        continue;
+      }
+      // Saved after every post, so a run that dies partway keeps what it fetched
+      writeManifest(manifestPath, manifest);
+    }
+    cursor = page.nextCursor ?? undefined;
+    // Pinned posts can be older than what follows them, so only stop on an older unpinned page
+    if (page.items.length > 0 && page.items.every((item: any) => item.taken_at < readBackTo)) {
+      break;
+    }
+  } while (cursor);
+
+  // Only moved once the whole feed has been read, so a run cut short is resumed where it stopped
+  manifest.newestTakenAt = manifest.media.length > 0 ? Math.max(...manifest.media.map(item => item.taken_at)) : null;
+  const failedDownloads = manifest.media.reduce((count, item) => count + countFailed(item), 0);
+  manifest.runs.push({ exportedAt: new Date().toISOString(), added, recoveredDownloads, failedDownloads });
+  writeManifest(manifestPath, manifest);
+
+  return {
+    directory,
+    manifestPath,
+    added,
+    total: manifest.media.length,
+    recoveredDownloads,
+    failedDownloads
+  };
+}
@@ -1,51 +1,203 @@
-import { IgApiClient } from 'instagram-private-api';
-import { readFile } from 'fs/promises';
+import { getAdapter } from './adapters/index.js';
+import type {
+  AlbumItemFile,
+  DirectTarget,
+  InstagramClient,
+  PostDetails,
+  StoryUploadOptions
+} from './adapters/index.js';
+import type { ClientSettings, ConnectionType } from './core/services/index.js';
 
+export type {
+  AccountInsights,
+  AlbumItemFile,
+  CommentSummary,
+  ConnectionsPage,
+  DirectMessageSummary,
+  DirectTarget,
+  DirectThreadSummary,
+  FeedPage,
+  InstagramClient,
+  LocationSummary,
+  LoginResult,
+  PostDetails,
+  ProxyCheckResult,
+  PublishResult,
+  StoryUploadOptions,
+  TrimmedMedia,
+  UserSearchResult,
+  UserTag,
+  VerificationMethod
+} from './adapters/index.js';
+export { trimMedia, trimProfile, mediaIdToShortcode, parseMediaReference } from './adapters/real.js';
+
+// Every call goes through the backend selected by IG_BACKEND, so tools never
+// depend on instagram-private-api directly
 
 export async function login(username: string, password: string) {
-  console.log(`Logging in to Instagram as ${username}`);
-  try {
-    const ig = new IgApiClient();
-    ig.state.generateDevice(username);
-    await ig.account.login(username, password);
-    console.log('Login successful', username);
-    return ig;
-  } catch (error) {
-    console.error('Login failed:', error);
-    throw error;
-  }
+  return getAdapter().login(username, password);
 }
 
-export async function uploadPhoto(ig: IgApiClient, filePath: string, caption?: string) {
-  const file = await readFile(filePath);
-  const result = await ig.publish.photo({ file, caption });
-  console.log('Photo uploaded successfully:', result);
-  return result;
+export async function createSession(username: string, password: string, account?: string) {
+  return getAdapter().createSession(username, password, account);
 }
 
-export async function uploadVideo(ig: IgApiClient, filePath: string, coverImagePath: string, caption?: string) {
-  const video = await readFile(filePath);
-  const coverImage = await readFile(coverImagePath);
-  const result = await ig.publish.video({ video, coverImage, caption });
-  console.log('Video uploaded successfully:', result);
-  return result;
+export async function completeChallenge(challengeId: string, code: string) {
+  return getAdapter().completeChallenge(challengeId, code);
 }
 
-export async function getProfile(ig: IgApiClient, userId: string) {
-  return await ig.user.info(userId);
+export async function withSession<T>(account: string, operation: (ig: InstagramClient) => Promise<T>): Promise<T> {
+  return getAdapter().withSession(account, operation);
+}
+
+export async function destroySession(account: string) {
+  return getAdapter().destroySession(account);
+}
 
+export async function getSessionUsername(account: string) {
+  return getAdapter().getSessionUsername(account);
 }
 
-export async function getTimelineFeed(ig: IgApiClient, limit: number = 10) {
-  const feed = ig.feed.timeline();
-  feed.items = async () => {
-    const items = await feed.items();
-    return items.slice(0, limit);
-  };
-  await feed.request();
-  console.log(`Fetched ${feed.items.length} items from timeline feed`);
-  if (feed.items.length === 0) {
-    console.warn('No items found in the timeline feed');
+export async function checkProxy(settings: ClientSettings, targetUrl: string) {
+  return getAdapter().checkProxy(settings, targetUrl);
+}
+
+/**
+ * Run an operation with the session named by IG_DEFAULT_ACCOUNT, for callers
+ * such as resources that cannot take credentials
+ */
+export async function withDefaultSession<T>(operation: (ig: InstagramClient) => Promise<T>): Promise<T> {
+  const account = process.env.IG_DEFAULT_ACCOUNT;
+  if (!account) {
+    throw new Error('No default Instagram account configured; set IG_DEFAULT_ACCOUNT to a logged-in account handle');
   }
-  return await feed.items();
+  return withSession(account, operation);
+}
+
+export async function uploadPhoto(ig: InstagramClient, filePath: string, caption?: string, details?: PostDetails) {
+  return getAdapter().uploadPhoto(ig, filePath, caption, details);
+}
+
+export async function uploadVideo(ig: InstagramClient, filePath: string, coverImagePath: string, caption?: string, details?: PostDetails) {
+  return getAdapter().uploadVideo(ig, filePath, coverImagePath, caption, details);
+}
+
+export async function uploadAlbum(ig: InstagramClient, items: AlbumItemFile[], caption?: string, location?: string) {
+  return getAdapter().uploadAlbum(ig, items, caption, location);
+}
+
+export async function uploadStory(ig: InstagramClient, options: StoryUploadOptions) {
+  return getAdapter().uploadStory(ig, options);
+}
+
+export async function uploadReel(ig: InstagramClient, filePath: string, coverImagePath: string, caption?: string, shareToFeed?: boolean) {
+  return getAdapter().uploadReel(ig, filePath, coverImagePath, caption, shareToFeed);
+}
+
+export async function getCurrentUser(ig: InstagramClient) {
+  return getAdapter().getCurrentUser(ig);
+}
+
+export async function resolveUserId(ig: InstagramClient, user: string) {
+  return getAdapter().resolveUserId(ig, user);
+}
+
+export async function searchUsers(ig: InstagramClient, query: string, limit?: number) {
+  return getAdapter().searchUsers(ig, query, limit);
+}
+
+export async function getProfile(ig: InstagramClient, user: string) {
+  return getAdapter().getProfile(ig, user);
+}
+
+export async function getConnectionsPage(ig: InstagramClient, user: string, type: ConnectionType, limit?: number, cursor?: string) {
+  return getAdapter().getConnectionsPage(ig, user, type, limit, cursor);
+}
+
+export async function getAccountInsights(ig: InstagramClient) {
+  return getAdapter().getAccountInsights(ig);
+}
+
+export async function getMediaInfo(ig: InstagramClient, mediaId: string) {
+  return getAdapter().getMediaInfo(ig, mediaId);
+}
+
+export async function editCaption(ig: InstagramClient, mediaId: string, caption: string) {
+  return getAdapter().editCaption(ig, mediaId, caption);
+}
+
+export async function setArchived(ig: InstagramClient, mediaId: string, archived: boolean) {
+  return getAdapter().setArchived(ig, mediaId, archived);
+}
+
+export async function deleteMedia(ig: InstagramClient, mediaId: string) {
+  return getAdapter().deleteMedia(ig, mediaId);
+}
+
+export async function getTimelinePage(ig: InstagramClient, limit?: number, cursor?: string) {
+  return getAdapter().getTimelinePage(ig, limit, cursor);
+}
+
+export async function getUserFeedPage(ig: InstagramClient, user: string, limit?: number, cursor?: string) {
+  return getAdapter().getUserFeedPage(ig, user, limit, cursor);
+}
+
+export async function getSavedFeedPage(ig: InstagramClient, limit?: number, cursor?: string) {
+  return getAdapter().getSavedFeedPage(ig, limit, cursor);
+}
+
+export async function getHashtagFeedPage(ig: InstagramClient, tag: string, section: 'top' | 'recent', limit?: number, cursor?: string) {
+  return getAdapter().getHashtagFeedPage(ig, tag, section, limit, cursor);
+}
+
+export async function searchLocations(ig: InstagramClient, query: string, coordinates?: { latitude: number; longitude: number }) {
+  return getAdapter().searchLocations(ig, query, coordinates);
+}
+
+export async function getLocationFeedPage(ig: InstagramClient, locationId: string, section: 'recent' | 'ranked', limit?: number, cursor?: string) {
+  return getAdapter().getLocationFeedPage(ig, locationId, section, limit, cursor);
+}
+
+export async function getCommentsPage(ig: InstagramClient, mediaId: string, limit?: number, cursor?: string) {
+  return getAdapter().getCommentsPage(ig, mediaId, limit, cursor);
+}
+
+export async function replyToComment(ig: InstagramClient, mediaId: string, commentId: string, text: string) {
+  return getAdapter().replyToComment(ig, mediaId, commentId, text);
+}
+
+export async function likeComment(ig: InstagramClient, commentId: string) {
+  return getAdapter().likeComment(ig, commentId);
+}
+
+export async function deleteComments(ig: InstagramClient, mediaId: string, commentIds: string[]) {
+  return getAdapter().deleteComments(ig, mediaId, commentIds);
+}
+
+export async function setCommentsEnabled(ig: InstagramClient, mediaId: string, enabled: boolean) {
+  return getAdapter().setCommentsEnabled(ig, mediaId, enabled);
+}
+
+export async function getInboxPage(ig: InstagramClient, limit?: number, cursor?: string) {
+  return getAdapter().getInboxPage(ig, limit, cursor);
+}
+
+export async function getPendingInboxPage(ig: InstagramClient, limit?: number, cursor?: string) {
+  return getAdapter().getPendingInboxPage(ig, limit, cursor);
+}
+
+export async function getThreadMessagesPage(ig: InstagramClient, threadId: string, limit?: number, cursor?: string) {
+  return getAdapter().getThreadMessagesPage(ig, threadId, limit, cursor);
+}
+
+export async function sendDirectText(ig: InstagramClient, target: DirectTarget, text: string) {
+  return getAdapter().sendDirectText(ig, target, text);
+}
+
+export async function sendDirectPhoto(ig: InstagramClient, target: DirectTarget, filePath: string) {
+  return getAdapter().sendDirectPhoto(ig, target, filePath);
+}
+
+export async function respondToMessageRequest(ig: InstagramClient, threadId: string, approve: boolean) {
+  return getAdapter().respondToMessageRequest(ig, threadId, approve);
 }
@@ -0,0 +1,297 @@
+import { readFile, writeFile } from 'fs/promises';
+import sharp from 'sharp';
+// The package entry point must load before any of its internal modules
+import 'instagram-private-api';
+import { PublishService } from 'instagram-private-api/dist/services/publish.service.js';
+
+export type MediaSurface = 'feed' | 'carousel' | 'story' | 'reel';
+export type MediaKind = 'photo' | 'video';
+export type MediaFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'heic' | 'mp4' | 'mov';
+
+export interface MediaInfo {
+  format: MediaFormat;
+  kind: MediaKind;
+  width: number;
+  height: number;
+  aspectRatio: number;
+  sizeBytes: number;
+  durationSec?: number;
+}
+
+export interface PreflightReport {
+  ok: boolean;
+  info: MediaInfo | null;
+  errors: string[];
+  warnings: string[];
+  normalized: boolean;
+}
+
+interface PhotoLimits {
+  minRatio: number;
+  maxRatio: number;
+  maxBytes: number;
+  minWidth: number;
+}
+
+interface VideoLimits {
+  minRatio: number;
+  maxRatio: number;
+  maxBytes: number;
+  minDurationSec: number;
+  maxDurationSec: number;
+}
+
+/**
+ * Thrown when a file fails preflight; carries every problem found
+ */
+export class MediaPreflightError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Media failed preflight: ${errors.join('; ')}`);
+    this.name = 'MediaPreflightError';
+  }
+}
+
+const MB = 1024 * 1024;
+
+// Instagram's published limits per surface. A surface without a kind does not accept it.
+const LIMITS: Record<MediaSurface | 'cover', { photo?: PhotoLimits; video?: VideoLimits }> = {
+  feed: {
+    photo: { minRatio: 4 / 5, maxRatio: 1.91, maxBytes: 8 * MB, minWidth: 320 },
+    video: { minRatio: 4 / 5, maxRatio: 16 / 9, maxBytes: 100 * MB, minDurationSec: 3, maxDurationSec: 60 }
+  },
+  carousel: {
+    photo: { minRatio: 4 / 5, maxRatio: 1.91, maxBytes: 8 * MB, minWidth: 320 },
+    video: { minRatio: 4 / 5, maxRatio: 16 / 9, maxBytes: 100 * MB, minDurationSec: 3, maxDurationSec: 60 }
+  },
+  story: {
+    photo: { minRatio: 9 / 16, maxRatio: 1.91, maxBytes: 8 * MB, minWidth: 320 },
+    video: { minRatio: 9 / 16, maxRatio: 1.91, maxBytes: 100 * MB, minDurationSec: 1, maxDurationSec: 60 }
+  },
+  reel: {
+    video: { minRatio: 9 / 16, maxRatio: 1.91, maxBytes: 250 * MB, minDurationSec: 3, maxDurationSec: 90 }
+  },
+  // Cover frames for videos only need to be a JPEG Instagram can read
+  cover: {
+    photo: { minRatio: 9 / 16, maxRatio: 1.91, maxBytes: 8 * MB, minWidth: 150 }
+  }
+};
+
+// Allow for rounding in pixel dimensions
+const RATIO_TOLERANCE = 0.01;
+
+// Instagram stores photos at most this wide
+const MAX_PHOTO_WIDTH = 1440;
+
+/**
+ * Identify a file's real container format from its first bytes
+ * @param buffer The file contents (at least the first 16 bytes)
+ * @returns The format, or null when it is not one Instagram might accept
+ */
+export function detectFormat(buffer: Buffer): { format: MediaFormat; kind: MediaKind } | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return { format: 'jpeg', kind: 'photo' };
+  }
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return { format: 'png', kind: 'photo' };
+  }
+  if (buffer.length >= 4 && buffer.toString('latin1', 0, 4) === 'GIF8') {
+    return { format: 'gif', kind: 'photo' };
+  }
+  if (buffer.length >= 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+    return { format: 'webp', kind: 'photo' };
+  }
+  if (buffer.length >= 12 && buffer.toString('latin1', 4, 8) === 'ftyp') {
+    const brand = buffer.toString('latin1', 8, 12);
+    if (['heic', 'heix', 'hevc', 'mif1', 'msf1'].includes(brand)) {
+      return { format: 'heic', kind: 'photo' };
+    }
+    return { format: brand === 'qt  ' ? 'mov' : 'mp4', kind: 'video' };
+  }
+  return null;
+}
+
+/**
+ * Read a file's format, dimensions, size and (for videos) duration
+ * @param filePath Path of the downloaded file
+ */
+export async function inspectMedia(filePath: string): Promise<MediaInfo> {
+  const buffer = await readFile(filePath);
+  const detected = detectFormat(buffer);
+  if (!detected) {
+    throw new MediaPreflightError(['Unrecognized file format; expected a JPEG, PNG, WebP, GIF, HEIC, MP4 or MOV file']);
+  }
+
+  if (detected.kind === 'video') {
+    // The private API can only read H.264 (avc1) video headers
+    if (buffer.indexOf('moov') === -1 || buffer.indexOf('avc1') === -1) {
+      throw new MediaPreflightError(['Video must be an H.264 (avc1) MP4 or MOV file with a moov atom']);
+    }
+    const { width, height, duration } = PublishService.getVideoInfo(buffer);
+    return {
+      ...detected,
+      width,
+      height,
+      aspectRatio: width / height,
+      sizeBytes: buffer.length,
+      durationSec: duration / 1000
+    };
+  }
+
+  const metadata = await sharp(buffer).metadata().catch(() => null);
+  if (!metadata?.width || !metadata.height) {
+    throw new MediaPreflightError(['Could not read image dimensions']);
+  }
+  // EXIF orientations 5-8 are rotated a quarter turn
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const width = rotated ? metadata.height : metadata.width;
+  const height = rotated ? metadata.width : metadata.height;
+  return {
+    ...detected,
+    width,
+    height,
+    aspectRatio: width / height,
+    sizeBytes: buffer.length
+  };
+}
+
+/**
+ * Check inspected media against a surface's limits
+ * @param info Result of inspectMedia
+ * @param surface Where the media will be published
+ * @param expectedKind The media type the caller intends to publish
+ */
+export function checkMedia(info: MediaInfo, surface: MediaSurface | 'cover', expectedKind?: MediaKind): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const ratio = info.aspectRatio.toFixed(2);
+
+  if (expectedKind && info.kind !== expectedKind) {
+    errors.push(`Expected a ${expectedKind} but the file is a ${info.format} ${info.kind}`);
+    return { errors, warnings };
+  }
+
+  if (info.kind === 'photo') {
+    const limits = LIMITS[surface].photo;
+    if (!limits) {
+      errors.push(`${surface} does not accept photos`);
+      return { errors, warnings };
+    }
+    if (info.format !== 'jpeg') {
+      errors.push(`Photos must be JPEG, got ${info.format} (set normalize to re-encode)`);
+    }
+    if (info.aspectRatio < limits.minRatio - RATIO_TOLERANCE || info.aspectRatio > limits.maxRatio + RATIO_TOLERANCE) {
+      errors.push(`Aspect ratio ${ratio} is outside ${limits.minRatio.toFixed(2)}-${limits.maxRatio.toFixed(2)} for ${surface} (set normalize to pad)`);
+    }
+    if (info.width < limits.minWidth) {
+      errors.push(`Width ${info.width}px is below the ${limits.minWidth}px minimum`);
+    }
+    if (info.width > MAX_PHOTO_WIDTH) {
+      warnings.push(`Width ${info.width}px will be downscaled to ${MAX_PHOTO_WIDTH}px by Instagram`);
+    }
+    if (info.sizeBytes > limits.maxBytes) {
+      errors.push(`File is ${(info.sizeBytes / MB).toFixed(1)}MB, over the ${limits.maxBytes / MB}MB limit`);
+    }
+    return { errors, warnings };
+  }
+
+  const limits = LIMITS[surface].video;
+  if (!limits) {
+    errors.push(`${surface} does not accept videos`);
+    return { errors, warnings };
+  }
+  if (info.aspectRatio < limits.minRatio - RATIO_TOLERANCE || info.aspectRatio > limits.maxRatio + RATIO_TOLERANCE) {
+    errors.push(`Aspect ratio ${ratio} is outside ${limits.minRatio.toFixed(2)}-${limits.maxRatio.toFixed(2)} for ${surface}`);
+  }
+  const duration = info.durationSec ?? 0;
+  if (duration < limits.minDurationSec || duration > limits.maxDurationSec) {
+    errors.push(`Duration ${duration.toFixed(1)}s is outside ${limits.minDurationSec}-${limits.maxDurationSec}s for ${surface}`);
+  }
+  if (info.sizeBytes > limits.maxBytes) {
+    errors.push(`File is ${(info.sizeBytes / MB).toFixed(1)}MB, over the ${limits.maxBytes / MB}MB limit`);
+  }
+  if ((surface === 'reel' || surface === 'story') && Math.abs(info.aspectRatio - 9 / 16) > RATIO_TOLERANCE) {
+    warnings.push(`Aspect ratio ${ratio} will be letterboxed; 9:16 fills the screen`);
+  }
+  return { errors, warnings };
+}
+
+/**
+ * Re-encode an image as JPEG in place, padding it with white to the nearest
+ * allowed aspect ratio and scaling it down to Instagram's maximum width
+ * @param filePath Path of the image to rewrite
+ * @param surface Where the image will be published
+ */
+export async function normalizeImage(filePath: string, surface: MediaSurface | 'cover'): Promise<void> {
+  const limits = LIMITS[surface].photo;
+  if (!limits) {
+    throw new MediaPreflightError([`${surface} does not accept photos`]);
+  }
+
+  // Apply EXIF rotation first so the padding is added to the visible edges
+  const image = sharp(await readFile(filePath)).rotate();
+  const { data, info } = await image.toBuffer({ resolveWithObject: true });
+  const ratio = Math.min(Math.max(info.width / info.height, limits.minRatio), limits.maxRatio);
+  const width = Math.max(info.width, Math.round(info.height * ratio));
+  const height = Math.max(info.height, Math.round(info.width / ratio));
+
+  let output = sharp(data).resize({
+    width,
+    height,
+    fit: 'contain',
+    background: { r: 255, g: 255, b: 255 }
+  });
+  if (width > MAX_PHOTO_WIDTH) {
+    output = sharp(await output.toBuffer()).resize({ width: MAX_PHOTO_WIDTH });
+  }
+  await writeFile(filePath, await output.flatten({ background: '#ffffff' }).jpeg({ quality: 90 }).toBuffer());
+}
+
+/**
+ * Inspect and check a file, optionally normalizing images first
+ * @param filePath Path of the downloaded file
+ * @param surface Where the media will be published
+ * @param options Expected media type, and whether images may be rewritten
+ * @returns A report; `ok` is false when any check failed
+ */
+export async function preflightMedia(
+  filePath: string,
+  surface: MediaSurface | 'cover',
+  options: { kind?: MediaKind; normalize?: boolean } = {}
+): Promise<PreflightReport> {
+  let info: MediaInfo;
+  try {
+    info = await inspectMedia(filePath);
+  } catch (error) {
+    if (error instanceof MediaPreflightError) {
+      return { ok: false, info: null, errors: error.errors, warnings: [], normalized: false };
+    }
+    throw error;
+  }
+
+  let { errors, warnings } = checkMedia(info, surface, options.kind);
+  let normalized = false;
+  if (errors.length > 0 && options.normalize && info.kind === 'photo' && (!options.kind || options.kind === 'photo')) {
+    await normalizeImage(filePath, surface);
+    normalized = true;
+    info = await inspectMedia(filePath);
+    ({ errors, warnings } = checkMedia(info, surface, options.kind));
+  }
+
+  return { ok: errors.length === 0, info, errors, warnings, normalized };
+}
+
+/**
+ * Run preflightMedia and throw when the file is not publishable
+ * @throws MediaPreflightError listing every failed check
+ */
+export async function assertPublishable(
+  filePath: string,
+  surface: MediaSurface | 'cover',
+  options: { kind?: MediaKind; normalize?: boolean } = {}
+): Promise<MediaInfo> {
+  const report = await preflightMedia(filePath, surface, options);
+  if (!report.ok || !report.info) {
+    throw new MediaPreflightError(report.errors);
+  }
+  return report.info;
+}
@@ -0,0 +1,125 @@
+import { AuditService, ScheduleService } from './core/services/index.js';
+import type { ScheduledPost } from './core/services/index.js';
+import { withSession, uploadPhoto, uploadVideo } from './instagram.js';
+import { redactArgs, schedulerCaller } from './audit.js';
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * Publish one queued post through its account's session, from the media
+ * stored when it was queued
+ */
+async function publishScheduledPost(item: ScheduledPost) {
+  if (item.type === 'video') {
+    return await withSession(item.account, ig => uploadVideo(ig, item.mediaPath, item.coverImagePath as string, item.caption));
+  }
+  return await withSession(item.account, ig => uploadPhoto(ig, item.mediaPath, item.caption));
+}
+
+/**
+ * Record a publishing attempt in the audit log, like a tool call made by
+ * the scheduler
+ */
+function auditAttempt(item: ScheduledPost, startedAt: number, mediaId: string | null, error?: string) {
+  try {
+    AuditService.append({
+      timestamp: new Date(startedAt).toISOString(),
+      account: item.account,
+      tool: 'scheduler_publish',
+      args: redactArgs({ type: item.type, caption: item.caption, attempt: item.attempts }),
+      ...schedulerCaller(),
+      outcome: error === undefined ? 'success' : 'failure',
+      mediaId,
+      scheduledId: item.id,
+      error,
+      durationMs: Date.now() - startedAt
+    });
+  } catch (auditError: any) {
+    console.error(`Failed to write audit entry for scheduled post ${item.id}:`, auditError.message);
+  }
+}
+
+/**
+ * Publish every queued post that is due, one at a time
+ */
+export async function runDuePosts() {
+  if (running) {
+    return;
+  }
+  running = true;
+  try {
+    for (const { id } of ScheduleService.due()) {
+      // Re-read the item, since it may have been cancelled or rescheduled while an earlier post was publishing
+      const current = ScheduleService.get(id);
+      if (!current || !ScheduleService.isDue(current)) {
+        continue;
+      }
+      const item = ScheduleService.update(id, {
+        status: 'publishing',
+        attempts: current.attempts + 1
+      });
+      console.error(`Publishing scheduled post ${item.id} (attempt ${item.attempts})`);
+
+      const startedAt = Date.now();
+      try {
+        const result = await publishScheduledPost(item);
+        auditAttempt(item, startedAt, result.mediaId);
+        ScheduleService.update(item.id, {
+          status: 'published',
+          result: result as Record<string, any>,
+          lastError: undefined,
+          nextAttemptAt: undefined
+        });
+        ScheduleService.removeMedia(item.id);
+      } catch (error: any) {
+        console.error(`Scheduled post ${item.id} failed:`, error);
+        auditAttempt(item, startedAt, null, error.message);
+        const retry = item.attempts < MAX_ATTEMPTS;
+        ScheduleService.update(item.id, {
+          status: retry ? 'pending' : 'failed',
+          lastError: error.message,
+          nextAttemptAt: retry ? new Date(Date.now() + item.attempts * RETRY_DELAY_MS).toISOString() : undefined
+        });
+      }
+    }
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the background worker. Posts that came due while the server was
+ * down are published on the first tick; posts it was publishing are set
+ * aside as interrupted.
+ * @param intervalMs How often to check the queue
+ */
+export function startScheduler(intervalMs: number = parseInt(process.env.IG_SCHEDULER_INTERVAL_MS || "30000", 10)) {
+  if (timer) {
+    return;
+  }
+  const interrupted = ScheduleService.markInterrupted();
+  if (interrupted > 0) {
+    console.warn(`${interrupted} scheduled post(s) were being published when the server last stopped. They may already be live; check the account, then reschedule or cancel them.`);
+  }
+
+  const tick = () => {
+    runDuePosts().catch(error => console.error("Scheduler tick failed:", error));
+  };
+  timer = setInterval(tick, intervalMs);
+  timer.unref();
+  tick();
+}
+
+/**
+ * Stop the background worker
+ */
+export function stopScheduler() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -2,20 +2,30 @@ import { FastMCP } from "fastmcp";
 import { registerResources } from "../core/resources.js";
 import { registerTools } from "../core/tools.js";
 import { registerPrompts } from "../core/prompts.js";
+import { startScheduler } from "../scheduler.js";
+import { authenticateSession, trackSessions } from "../audit.js";
 
 // Create and start the MCP server
 async function startServer() {
   try {
     // Create a new FastMCP server instance
-    const server = new FastMCP({
+    const server = new FastMCP<any>({
       name: "MCP Server",
-      version: "1.0.0"
+      version: "1.0.0",
+      // Gives each HTTP session an id for the audit log; nothing is rejected
+      authenticate: authenticateSession
     });
 
+    // Remember connected clients, so audit entries can name them
+    trackSessions(server);
+
     // Register all resources, tools, and prompts
     registerResources(server);
     registerTools(server);
     registerPrompts(server);
+
+    // Publish scheduled posts in the background
+    startScheduler();
     
     // Log server information
     console.error(`MCP Server initialized`);
@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import { checkProxy, getCurrentUser, withSession } from '../instagram.js';
+import { AccountService, SessionService } from '../core/services/index.js';
+import type { AccountConfig } from '../core/services/index.js';
+import { redactArgs } from '../audit.js';
+import type { InstagramTool } from './auditTools.js';
+
+// Never echo proxy credentials back
+function redactProxy(proxy?: string): string | null {
+  if (!proxy) {
+    return null;
+  }
+  try {
+    const url = new URL(proxy);
+    if (url.username || url.password) {
+      url.username = '***';
+      url.password = '';
+    }
+    return url.toString();
+  } catch {
+    return '(invalid proxy URL)';
+  }
+}
+
+function summarizeAccount(account: AccountConfig, stored: string[]) {
+  return {
+    name: account.name,
+    username: account.username ?? null,
+    auth: account.sessionFile ? 'session_file' : 'password',
+    proxy: redactProxy(account.proxy),
+    deviceSeed: account.deviceSeed ? 'pinned' : 'username',
+    locale: account.locale ?? null,
+    timezoneOffset: account.timezoneOffset ?? null,
+    customUserAgent: Boolean(account.userAgent),
+    allowedTools: account.allowedTools ?? null,
+    requireApproval: Boolean(account.requireApproval),
+    storedSession: stored.includes(account.name)
+  };
+}
+
+const DEFAULT_PROXY_CHECK_URL = 'https://i.instagram.com/';
+
+export const accountTools: InstagramTool[] = [
+  {
+    name: 'instagram_list_accounts',
+    description: 'List the accounts in the account registry and any sessions created with instagram_login, without secrets',
+    audited: false,
+    parameters: z.object({}),
+    execute: async () => {
+      console.log('Executing instagram_list_accounts');
+      try {
+        const configured = AccountService.list();
+        const stored = await SessionService.list();
+        const loginOnly = stored.filter(name => !configured.some(account => account.name === name));
+        return JSON.stringify({
+          success: true,
+          accounts: [
+            ...configured.map(account => ({ source: 'registry', ...summarizeAccount(account, stored) })),
+            ...loginOnly.map(name => ({ source: 'login', name, storedSession: true }))
+          ]
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  },
+  {
+    name: 'instagram_check_sessions',
+    description: 'Check that accounts can reach Instagram, logging registry accounts in if needed',
+    audited: true,
+    parameters: z.object({
+      account: z.string().optional().describe('Account to check (defaults to every registry account and stored session)')
+    }),
+    execute: async (args: any) => {
+      const { account } = args as { account?: string };
+      console.log('Executing instagram_check_sessions with args:', redactArgs(args));
+      try {
+        const names = account
+          ? [SessionService.normalizeAccount(account)]
+          : [...new Set([...AccountService.list().map(entry => entry.name), ...(await SessionService.list())])];
+
+        const results = [];
+        // One at a time, so a batch of logins does not look like a burst
+        for (const name of names) {
+          const startedAt = Date.now();
+          try {
+            const user = await withSession(name, ig => getCurrentUser(ig));
+            results.push({ account: name, healthy: true, userId: user.pk, username: user.username, latencyMs: Date.now() - startedAt });
+          } catch (error: any) {
+            results.push({ account: name, healthy: false, error: error.message, latencyMs: Date.now() - startedAt });
+          }
+        }
+        return JSON.stringify({
+          success: true,
+          healthy: results.filter(result => result.healthy).length,
+          unhealthy: results.filter(result => !result.healthy).length,
+          results
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  },
+  {
+    name: 'instagram_check_proxy',
+    description: 'Check that a registry account\'s proxy is reachable and passes requests on to Instagram',
+    audited: false,
+    parameters: z.object({
+      account: z.string().describe('Registry account whose proxy and client settings to test')
+    }),
+    execute: async (args: any) => {
+      const { account } = args as { account: string };
+      console.log('Executing instagram_check_proxy with args:', redactArgs(args));
+      try {
+        const config = AccountService.get(account);
+        if (!config) {
+          throw new Error(`Account "${account}" is not in the account registry`);
+        }
+        if (!config.proxy) {
+          throw new Error(`Account "${config.name}" has no proxy configured`);
+        }
+        // Only the operator picks the target, so the tool cannot be pointed at arbitrary hosts
+        const result = await checkProxy(config, process.env.IG_PROXY_CHECK_URL || DEFAULT_PROXY_CHECK_URL);
+        return JSON.stringify({
+          success: result.reachable,
+          proxy: redactProxy(config.proxy),
+          ...result
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  }
+];
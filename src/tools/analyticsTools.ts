@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { buildAccountReport, renderReportMarkdown } from '../analytics.js';
+import { credentialParameters, withInstagram } from './credentials.js';
+import type { CredentialArgs } from './credentials.js';
+import { redactArgs } from '../audit.js';
+import type { InstagramTool } from './auditTools.js';
+
+const DEFAULT_RANGE_DAYS = 30;
+
+function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${name} must be an ISO 8601 date, got "${value}"`);
+  }
+  return date;
+}
+
+export const analyticsTools: InstagramTool[] = [
+  {
+    name: 'instagram_account_report',
+    description: 'Report engagement rate per post, best posting hour and weekday, hashtag performance and follower growth for an account over a date range',
+    audited: false,
+    parameters: z.object({
+      ...credentialParameters,
+      user: z.string().describe('Instagram username or numeric user id, usually your own account'),
+      from: z.string().optional().describe(`Start of the range as an ISO 8601 date (defaults to ${DEFAULT_RANGE_DAYS} days before "to")`),
+      to: z.string().optional().describe('End of the range as an ISO 8601 date (defaults to now)'),
+      timezone: z.string().default('UTC').describe('IANA time zone for the best hour and weekday, e.g. "Europe/Berlin"'),
+      maxPosts: z.number().int().min(1).max(500).default(100).describe('Maximum number of posts to analyze')
+    }),
+    execute: async (args: any) => {
+      const { user, from, to, timezone, maxPosts } = args as CredentialArgs & {
+        user: string;
+        from?: string;
+        to?: string;
+        timezone: string;
+        maxPosts: number;
+      };
+      console.log('Executing instagram_account_report with args:', redactArgs(args));
+      try {
+        const end = to ? parseDate(to, 'to') : new Date();
+        const start = from ? parseDate(from, 'from') : new Date(end.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+        if (start > end) {
+          throw new Error('from must be before to');
+        }
+        // Fails early with a RangeError on an unknown zone
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+
+        const report = await withInstagram(args, ig => buildAccountReport(ig, user, { from: start, to: end, maxPosts, timezone }));
+        return JSON.stringify({
+          success: true,
+          report,
+          markdown: renderReportMarkdown(report)
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  }
+];
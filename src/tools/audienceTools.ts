@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import fs from 'fs';
+import path from 'path';
+import { getConnectionsPage } from '../instagram.js';
+import { getExportDir } from '../export.js';
+import { SnapshotService } from '../core/services/index.js';
+import type { ConnectionSnapshot, ConnectionType, ConnectionUser } from '../core/services/index.js';
+import { credentialParameters, withInstagram } from './credentials.js';
+import type { CredentialArgs } from './credentials.js';
+import { redactArgs } from '../audit.js';
+import type { InstagramTool } from './auditTools.js';
+
+// Users requested per page while walking a whole list
+const EXPORT_PAGE_SIZE = 200;
+
+function toCsv(users: ConnectionUser[]): string {
+  const escape = (value: string | boolean) => {
+    const text = String(value ?? '');
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const header = 'pk,username,full_name,is_private,is_verified';
+  const rows = users.map(user => [user.pk, user.username, user.full_name, user.is_private, user.is_verified].map(escape).join(','));
+  return [header, ...rows].join('\n') + '\n';
+}
+
+function writeExport(snapshotId: string, users: ConnectionUser[], format: 'json' | 'csv'): string {
+  const exportDir = getExportDir();
+  fs.mkdirSync(exportDir, { recursive: true });
+  const filePath = path.join(exportDir, `${snapshotId}.${format}`);
+  fs.writeFileSync(filePath, format === 'csv' ? toCsv(users) : JSON.stringify(users, null, 2));
+  return filePath;
+}
+
+function describeDiff(baseline: ConnectionSnapshot | undefined, users: ConnectionUser[], complete: boolean, maxUsers: number) {
+  // A truncated list would report everyone past maxUsers as removed
+  if (!complete) {
+    return { message: `Stopped at maxUsers (${maxUsers}) before the end of the list; raise maxUsers to diff against a snapshot` };
+  }
+  if (!baseline) {
+    return { message: 'No previous snapshot to compare with; this export is now the baseline' };
+  }
+  return { baselineSnapshotId: baseline.id, baselineTakenAt: baseline.takenAt, ...SnapshotService.diff(baseline.users, users) };
+}
+
+function connectionPageTool(type: ConnectionType): InstagramTool {
+  return {
+    name: `instagram_get_${type}`,
+    description: `Get a page of an account's ${type === 'followers' ? 'followers' : 'followed accounts'}`,
+    audited: false,
+    parameters: z.object({
+      ...credentialParameters,
+      user: z.string().describe('Instagram username or numeric user id'),
+      limit: z.number().int().min(1).max(200).default(50).describe('Number of users to fetch'),
+      cursor: z.string().optional().describe('nextCursor from a previous page')
+    }),
+    execute: async (args: any) => {
+      const { user, limit, cursor } = args as CredentialArgs & { user: string; limit: number; cursor?: string };
+      console.log(`Executing instagram_get_${type} with args:`, redactArgs(args));
+      const page = await withInstagram(args, ig => getConnectionsPage(ig, user, type, limit, cursor));
+      return JSON.stringify(page);
+    }
+  };
+}
+
+export const audienceTools: InstagramTool[] = [
+  connectionPageTool('followers'),
+  connectionPageTool('following'),
+  {
+    name: 'instagram_export_connections',
+    description: 'Export an account\'s full followers or following list to JSON or CSV, optionally diffing it against a previous snapshot',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      user: z.string().describe('Instagram username or numeric user id'),
+      type: z.enum(['followers', 'following']).default('followers').describe('Which list to export'),
+      format: z.enum(['json', 'csv']).default('json').describe('Export file format'),
+      diff: z.boolean().default(false).describe('Report users added and removed since a previous snapshot'),
+      baselineSnapshotId: z.string().optional().describe('Snapshot to diff against (defaults to the latest complete one)'),
+      maxUsers: z.number().int().min(1).max(100000).default(10000).describe('Stop after this many users')
+    }),
+    execute: async (args: any) => {
+      const { user, type, format, diff, baselineSnapshotId, maxUsers } = args as CredentialArgs & {
+        user: string;
+        type: ConnectionType;
+        format: 'json' | 'csv';
+        diff: boolean;
+        baselineSnapshotId?: string;
+        maxUsers: number;
+      };
+      console.log('Executing instagram_export_connections with args:', redactArgs(args));
+
+      try {
+        const { userId, users, complete } = await withInstagram(args, async ig => {
+          const users: ConnectionUser[] = [];
+          let cursor: string | undefined;
+          let userId = '';
+          do {
+            const page = await getConnectionsPage(ig, user, type, Math.min(EXPORT_PAGE_SIZE, maxUsers - users.length), cursor);
+            userId = page.userId;
+            users.push(...page.items);
+            cursor = page.nextCursor ?? undefined;
+          } while (cursor && users.length < maxUsers);
+          return { userId, users, complete: !cursor };
+        });
+
+        // Pick the baseline before saving, so the new snapshot is not compared with itself
+        const baseline = diff
+          ? (baselineSnapshotId ? SnapshotService.load(baselineSnapshotId) : SnapshotService.latest(userId, type))
+          : undefined;
+        if (diff && baselineSnapshotId) {
+          if (!baseline) {
+            throw new Error(`Snapshot not found: ${baselineSnapshotId}`);
+          }
+          if (baseline.userId !== userId || baseline.type !== type) {
+            throw new Error(`Snapshot ${baselineSnapshotId} is of ${baseline.userId}'s ${baseline.type}, not ${userId}'s ${type}`);
+          }
+          if (!baseline.complete) {
+            throw new Error(`Snapshot ${baselineSnapshotId} is incomplete and cannot be diffed against`);
+          }
+        }
+
+        const snapshot = SnapshotService.save(userId, type, users, complete);
+        const filePath = writeExport(snapshot.id, users, format);
+
+        return JSON.stringify({
+          success: true,
+          userId,
+          type,
+          count: users.length,
+          complete,
+          snapshotId: snapshot.id,
+          filePath,
+          diff: diff ? describeDiff(baseline, users, complete, maxUsers) : undefined
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  }
+];
@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import type { Tool } from 'fastmcp';
+import { AuditService, SessionService } from '../core/services/index.js';
+import type { AuditOutcome } from '../core/services/index.js';
+import { describeCaller, redactArgs } from '../audit.js';
+
+/**
+ * A tool definition that states whether its calls change something on
+ * Instagram or in the local stores, and so belong in the audit log
+ */
+export type InstagramTool = Tool<any> & { audited: boolean };
+
+function parseResult(result: unknown): Record<string, any> {
+  try {
+    return typeof result === 'string' ? JSON.parse(result) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Account handle as sessions store it, or the raw value when it is not a
+ * valid handle, so a bad argument still gets its entry
+ */
+function auditAccount(account: unknown): string | null {
+  if (typeof account !== 'string' || account === '') {
+    return null;
+  }
+  try {
+    return SessionService.normalizeAccount(account);
+  } catch {
+    return account;
+  }
+}
+
+/**
+ * Record each call of a tool marked audited in the audit log, whether it
+ * succeeds or not
+ */
+export function withAudit(tool: InstagramTool): Tool<any> {
+  if (!tool.audited) {
+    return tool;
+  }
+  return {
+    ...tool,
+    execute: async (args: any, context: any) => {
+      const startedAt = Date.now();
+      let response: Record<string, any> = {};
+      let thrown: any;
+      try {
+        const result = await tool.execute(args, context);
+        response = parseResult(result);
+        return result;
+      } catch (error) {
+        thrown = error;
+        throw error;
+      } finally {
+        const account = auditAccount(args?.account ?? args?.username ?? response.account);
+        try {
+          AuditService.append({
+            timestamp: new Date(startedAt).toISOString(),
+            account,
+            tool: tool.name,
+            args: redactArgs(args ?? {}),
+            ...describeCaller(context?.session),
+            outcome: response.success === true ? 'success' : 'failure',
+            mediaId: response.mediaId ?? args?.mediaId ?? null,
+            draftId: response.draftId,
+            replayed: response.replayed === true ? true : undefined,
+            error: thrown?.message ?? response.error,
+            durationMs: Date.now() - startedAt
+          });
+        } catch (error: any) {
+          console.error(`Failed to write audit entry for ${tool.name}:`, error.message);
+        }
+      }
+    }
+  };
+}
+
+export const auditTools: InstagramTool[] = [
+  {
+    name: 'audit_query',
+    description: 'Search the audit log of publishing and account actions',
+    audited: false,
+    parameters: z.object({
+      account: z.string().optional().describe('Only entries for this account'),
+      tool: z.string().optional().describe('Only entries for this tool, e.g. instagram_upload_photo'),
+      from: z.string().optional().describe('Only entries at or after this ISO 8601 date'),
+      to: z.string().optional().describe('Only entries at or before this ISO 8601 date'),
+      outcome: z.enum(['success', 'failure']).optional().describe('Only successful or only failed calls'),
+      limit: z.number().int().min(1).max(1000).default(100).describe('Maximum number of entries to return, newest first')
+    }),
+    execute: async (args: any) => {
+      const { account, tool, from, to, outcome, limit } = args as {
+        account?: string;
+        tool?: string;
+        from?: string;
+        to?: string;
+        outcome?: AuditOutcome;
+        limit: number;
+      };
+      try {
+        for (const [name, value] of [['from', from], ['to', to]]) {
+          if (value && isNaN(new Date(value).getTime())) {
+            throw new Error(`Invalid ${name} date: ${value}`);
+          }
+        }
+        const entries = AuditService.query({
+          account: account ? SessionService.normalizeAccount(account) : undefined,
+          tool,
+          from,
+          to,
+          outcome,
+          limit
+        });
+        return JSON.stringify({
+          success: true,
+          count: entries.length,
+          entries
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  }
+];
@@ -0,0 +1,222 @@
+import { z } from 'zod';
+import { getCommentsPage, replyToComment, likeComment, deleteComments, setCommentsEnabled } from '../instagram.js';
+import type { CommentSummary } from '../instagram.js';
+import { credentialParameters, withInstagram } from './credentials.js';
+import type { CredentialArgs } from './credentials.js';
+import { redactArgs } from '../audit.js';
+import type { InstagramTool } from './auditTools.js';
+
+// Instagram rejects bulk deletes of more than this many comments at once
+const BULK_DELETE_BATCH_SIZE = 25;
+
+function matchBlocklist(text: string, blocklist: string[]): string[] {
+  const lower = text.toLowerCase();
+  return blocklist.filter(keyword => lower.includes(keyword.toLowerCase()));
+}
+
+export const commentTools: InstagramTool[] = [
+  {
+    name: 'instagram_list_comments',
+    description: 'Get a page of comments on a post',
+    audited: false,
+    parameters: z.object({
+      ...credentialParameters,
+      mediaId: z.string().describe('Media id of the post'),
+      limit: z.number().int().min(1).max(100).default(20).describe('Number of comments to fetch'),
+      cursor: z.string().optional().describe('nextCursor from a previous page')
+    }),
+    execute: async (args: any) => {
+      const { mediaId, limit, cursor } = args as CredentialArgs & { mediaId: string; limit: number; cursor?: string };
+      console.log('Executing instagram_list_comments with args:', redactArgs(args));
+      const page = await withInstagram(args, ig => getCommentsPage(ig, mediaId, limit, cursor));
+      return JSON.stringify(page);
+    }
+  },
+  {
+    name: 'instagram_reply_comment',
+    description: 'Reply to a comment on a post',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      mediaId: z.string().describe('Media id of the post'),
+      commentId: z.string().describe('Id of the comment to reply to'),
+      text: z.string().min(1).max(2200).describe('Reply text')
+    }),
+    execute: async (args: any) => {
+      const { mediaId, commentId, text } = args as CredentialArgs & { mediaId: string; commentId: string; text: string };
+      console.log('Executing instagram_reply_comment with args:', redactArgs(args));
+      try {
+        const comment = await withInstagram(args, ig => replyToComment(ig, mediaId, commentId, text));
+        return JSON.stringify({
+          success: true,
+          commentId: String(comment.pk),
+          text: comment.text
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  },
+  {
+    name: 'instagram_like_comment',
+    description: 'Like a comment',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      commentId: z.string().describe('Id of the comment to like')
+    }),
+    execute: async (args: any) => {
+      const { commentId } = args as CredentialArgs & { commentId: string };
+      console.log('Executing instagram_like_comment with args:', redactArgs(args));
+      try {
+        await withInstagram(args, ig => likeComment(ig, commentId));
+        return JSON.stringify({ success: true, commentId });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  },
+  {
+    name: 'instagram_delete_comment',
+    description: 'Delete one or more comments from a post',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      mediaId: z.string().describe('Media id of the post'),
+      commentIds: z.array(z.string()).min(1).max(BULK_DELETE_BATCH_SIZE).describe('Ids of the comments to delete')
+    }),
+    execute: async (args: any) => {
+      const { mediaId, commentIds } = args as CredentialArgs & { mediaId: string; commentIds: string[] };
+      console.log('Executing instagram_delete_comment with args:', redactArgs(args));
+      try {
+        await withInstagram(args, ig => deleteComments(ig, mediaId, commentIds));
+        return JSON.stringify({ success: true, mediaId, deleted: commentIds });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  },
+  {
+    name: 'instagram_set_comments_enabled',
+    description: 'Turn commenting on or off for a post',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      mediaId: z.string().describe('Media id of the post'),
+      enabled: z.boolean().describe('Whether comments should be allowed')
+    }),
+    execute: async (args: any) => {
+      const { mediaId, enabled } = args as CredentialArgs & { mediaId: string; enabled: boolean };
+      console.log('Executing instagram_set_comments_enabled with args:', redactArgs(args));
+      try {
+        await withInstagram(args, ig => setCommentsEnabled(ig, mediaId, enabled));
+        return JSON.stringify({ success: true, mediaId, commentsEnabled: enabled });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  },
+  {
+    name: 'instagram_moderate_comments',
+    description: 'Find comments on a post that contain blocklisted keywords and report them. To delete them, call again with apply: true and the commentIds from that report.',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      mediaId: z.string().describe('Media id of the post'),
+      blocklist: z.array(z.string().min(1)).min(1).optional().describe('Keywords to match, case-insensitively (needed for the report)'),
+      apply: z.boolean().default(false).describe('Delete the comments listed in commentIds instead of reporting matches'),
+      commentIds: z.array(z.string()).min(1).max(5000).optional().describe('Ids of the matches from an earlier report to delete (needed with apply: true)'),
+      maxComments: z.number().int().min(1).max(5000).default(500).describe('Maximum number of comments to scan')
+    }),
+    execute: async (args: any) => {
+      const { mediaId, blocklist, apply, commentIds, maxComments } = args as CredentialArgs & {
+        mediaId: string;
+        blocklist?: string[];
+        apply: boolean;
+        commentIds?: string[];
+        maxComments: number;
+      };
+      console.log('Executing instagram_moderate_comments with args:', redactArgs(args));
+
+      try {
+        if (apply) {
+          // Delete what the report showed, not whatever a new scan would match
+          if (!commentIds) {
+            throw new Error('Pass the commentIds from the report to delete with apply: true');
+          }
+          return await withInstagram(args, async ig => {
+            const deleted: string[] = [];
+            const failed: string[] = [];
+            const errors: string[] = [];
+            for (let i = 0; i < commentIds.length; i += BULK_DELETE_BATCH_SIZE) {
+              const batch = commentIds.slice(i, i + BULK_DELETE_BATCH_SIZE);
+              try {
+                await deleteComments(ig, mediaId, batch);
+                deleted.push(...batch);
+              } catch (error: any) {
+                failed.push(...batch);
+                errors.push(error.message);
+              }
+            }
+            return JSON.stringify({
+              success: failed.length === 0,
+              mediaId,
+              applied: true,
+              message: `Deleted ${deleted.length} of ${commentIds.length} comment(s)`,
+              deleted,
+              failed,
+              error: errors.length > 0 ? errors.join('; ') : undefined
+            });
+          });
+        }
+        if (!blocklist) {
+          throw new Error('Pass a blocklist to report matching comments');
+        }
+
+        return await withInstagram(args, async ig => {
+          const matches: (CommentSummary & { matched: string[] })[] = [];
+          let scanned = 0;
+          let cursor: string | undefined;
+          do {
+            const page = await getCommentsPage(ig, mediaId, Math.min(100, maxComments - scanned), cursor);
+            scanned += page.items.length;
+            page.items.forEach(comment => {
+              const matched = matchBlocklist(comment.text, blocklist);
+              if (matched.length > 0) {
+                matches.push({ ...comment, matched });
+              }
+            });
+            cursor = page.nextCursor ?? undefined;
+          } while (cursor && scanned < maxComments);
+
+          return JSON.stringify({
+            success: true,
+            mediaId,
+            scanned,
+            applied: false,
+            message: `${matches.length} comment(s) would be deleted; review them, then call again with apply: true and these commentIds`,
+            commentIds: matches.map(comment => comment.pk),
+            matches
+          });
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  }
+];
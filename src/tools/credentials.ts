@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import type { Tool } from 'fastmcp';
+import type { InstagramClient } from '../instagram.js';
+import { login, withSession } from '../instagram.js';
+import { AccountService } from '../core/services/index.js';
+
+// Accepted by every tool that talks to Instagram
+export const credentialParameters = {
+  account: z.string().optional().describe('Account name from the account registry, or the handle of a session created with instagram_login'),
+  username: z.string().optional().describe('Instagram username, when no account handle is given'),
+  password: z.string().optional().describe('Instagram password, when no account handle is given')
+};
+
+export type CredentialArgs = { account?: string; username?: string; password?: string };
+
+/**
+ * Run an operation with a client for the stored session named by `account`,
+ * falling back to a one-off login when raw credentials are given instead
+ */
+export async function withInstagram<T>(args: CredentialArgs, operation: (ig: InstagramClient) => Promise<T>): Promise<T> {
+  if (args.account) {
+    return await withSession(args.account, operation);
+  }
+  if (args.username && args.password) {
+    return await operation(await login(args.username, args.password));
+  }
+  throw new Error('Provide an account handle from instagram_login, or a username and password');
+}
+
+/**
+ * Refuse calls that name a registry account whose allowedTools list does not
+ * include the tool
+ */
+export function withAccountPolicy<T extends Tool<any>>(tool: T): T {
+  return {
+    ...tool,
+    execute: async (args: any, context: any) => {
+      if (args?.account && !AccountService.isToolAllowed(args.account, tool.name)) {
+        return JSON.stringify({
+          success: false,
+          error: `Tool ${tool.name} is not allowed for account "${args.account}"`
+        });
+      }
+      return tool.execute(args, context);
+    }
+  };
+}
@@ -0,0 +1,161 @@
+import { z } from 'zod';
+import { getInboxPage, getPendingInboxPage, getThreadMessagesPage, sendDirectText, sendDirectPhoto, respondToMessageRequest } from '../instagram.js';
+import { cleanupFile, materializeMedia, mediaInput } from './mediaFiles.js';
+import type { MediaInput } from './mediaFiles.js';
+import { credentialParameters, withInstagram } from './credentials.js';
+import type { CredentialArgs } from './credentials.js';
+import { redactArgs } from '../audit.js';
+import type { InstagramTool } from './auditTools.js';
+
+// Accepted by the tools that page through direct message feeds
+const directPageParameters = {
+  limit: z.number().int().min(1).max(100).default(20).describe('Number of entries to fetch'),
+  cursor: z.string().optional().describe('nextCursor from a previous page')
+};
+
+// Accepted by the send tools
+const directTargetParameters = {
+  threadId: z.string().optional().describe('Id of an existing thread'),
+  recipient: z.string().optional().describe('Username or user id to message when no threadId is given')
+};
+
+type DirectTargetArgs = { threadId?: string; recipient?: string };
+
+export const directTools: InstagramTool[] = [
+  {
+    name: 'instagram_list_inbox',
+    description: 'List direct message threads with their unread counts and latest message',
+    audited: false,
+    parameters: z.object({
+      ...credentialParameters,
+      ...directPageParameters
+    }),
+    execute: async (args: any) => {
+      const { limit, cursor } = args as CredentialArgs & { limit: number; cursor?: string };
+      console.log('Executing instagram_list_inbox with args:', redactArgs(args));
+      const page = await withInstagram(args, ig => getInboxPage(ig, limit, cursor));
+      return JSON.stringify({
+        ...page,
+        unreadThreads: page.items.filter(thread => thread.unread_count > 0).length
+      });
+    }
+  },
+  {
+    name: 'instagram_read_thread',
+    description: "Get a page of a direct message thread's messages, newest first",
+    audited: false,
+    parameters: z.object({
+      ...credentialParameters,
+      threadId: z.string().describe('Id of the thread'),
+      ...directPageParameters
+    }),
+    execute: async (args: any) => {
+      const { threadId, limit, cursor } = args as CredentialArgs & { threadId: string; limit: number; cursor?: string };
+      console.log('Executing instagram_read_thread with args:', redactArgs(args));
+      const page = await withInstagram(args, ig => getThreadMessagesPage(ig, threadId, limit, cursor));
+      return JSON.stringify(page);
+    }
+  },
+  {
+    name: 'instagram_send_direct_text',
+    description: 'Send a text direct message to a thread or a user',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      ...directTargetParameters,
+      text: z.string().min(1).max(1000).describe('Message text')
+    }),
+    execute: async (args: any) => {
+      const { threadId, recipient, text } = args as CredentialArgs & DirectTargetArgs & { text: string };
+      console.log('Executing instagram_send_direct_text with args:', redactArgs(args));
+      try {
+        const result = await withInstagram(args, ig => sendDirectText(ig, { threadId, recipient }, text));
+        return JSON.stringify({
+          success: true,
+          message: 'Message sent',
+          result
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  },
+  {
+    name: 'instagram_send_direct_photo',
+    description: 'Send a photo from a URL, local file, base64 data or MCP resource as a direct message to a thread or a user',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      ...directTargetParameters,
+      imageUrl: mediaInput('The image to send')
+    }),
+    execute: async (args: any) => {
+      const { threadId, recipient, imageUrl } = args as CredentialArgs & DirectTargetArgs & { imageUrl: MediaInput };
+      console.log('Executing instagram_send_direct_photo with args:', redactArgs(args));
+      let localFilePath: string | null = null;
+
+      try {
+        localFilePath = await materializeMedia(imageUrl, 'instagram_direct', 'photo');
+        const filePath = localFilePath;
+        const result = await withInstagram(args, ig => sendDirectPhoto(ig, { threadId, recipient }, filePath));
+        return JSON.stringify({
+          success: true,
+          message: 'Photo sent',
+          result
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      } finally {
+        // Always cleanup the temporary file
+        if (localFilePath) {
+          cleanupFile(localFilePath);
+        }
+      }
+    }
+  },
+  {
+    name: 'instagram_list_message_requests',
+    description: 'List pending direct message requests',
+    audited: false,
+    parameters: z.object({
+      ...credentialParameters,
+      ...directPageParameters
+    }),
+    execute: async (args: any) => {
+      const { limit, cursor } = args as CredentialArgs & { limit: number; cursor?: string };
+      console.log('Executing instagram_list_message_requests with args:', redactArgs(args));
+      const page = await withInstagram(args, ig => getPendingInboxPage(ig, limit, cursor));
+      return JSON.stringify(page);
+    }
+  },
+  {
+    name: 'instagram_respond_message_request',
+    description: 'Approve or decline a pending direct message request',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      threadId: z.string().describe('Id of the pending thread'),
+      action: z.enum(['approve', 'decline']).describe('Whether to accept the request into the inbox or decline it')
+    }),
+    execute: async (args: any) => {
+      const { threadId, action } = args as CredentialArgs & { threadId: string; action: 'approve' | 'decline' };
+      console.log('Executing instagram_respond_message_request with args:', redactArgs(args));
+      try {
+        await withInstagram(args, ig => respondToMessageRequest(ig, threadId, action === 'approve'));
+        return JSON.stringify({ success: true, threadId, action });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  }
+];
@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import fs from 'fs';
+import { DraftService, SessionService } from '../core/services/index.js';
+import type { Draft, DraftStatus } from '../core/services/index.js';
+import { approveDraft, authenticateApprover, createDraft, publishRequest, rejectDraft, requiresApproval } from '../drafts.js';
+import type { PublishRequest } from '../drafts.js';
+import { withInstagram } from './credentials.js';
+import type { CredentialArgs } from './credentials.js';
+import type { InstagramTool } from './auditTools.js';
+
+// Accepted by every publishing tool
+export const draftParameter = z.boolean().default(false).describe('Save the post as a draft for an approver instead of publishing it now');
+
+const approverTokenParameter = z.string().min(1).describe('Approver token from IG_APPROVERS');
+
+// Drop the stored upload call, which only holds internal file paths
+function summarizeDraft(draft: Draft) {
+  const { request, ...summary } = draft;
+  return summary;
+}
+
+/**
+ * Publish now, or hold the post as a draft when the caller asks for one or
+ * the account requires approval
+ * @returns The fields to merge into the tool's success response
+ */
+export async function publishOrDraft(args: CredentialArgs & { draft?: boolean }, request: PublishRequest, label: string) {
+  if (args.draft || await requiresApproval(args)) {
+    const draft = await createDraft(args.account, request);
+    return {
+      message: `${label} saved as a draft; an approver must approve it before it is published`,
+      status: 'pending_approval',
+      draftId: draft.id,
+      preview: draft.preview.text
+    };
+  }
+  const result = await withInstagram(args, ig => publishRequest(ig, request));
+  return {
+    message: `${label} uploaded successfully`,
+    ...result
+  };
+}
+
+export const draftTools: InstagramTool[] = [
+  {
+    name: 'instagram_list_drafts',
+    description: 'List drafts waiting for approval, or already approved or rejected',
+    audited: false,
+    parameters: z.object({
+      account: z.string().optional().describe('Only show drafts for this account'),
+      status: z.enum(['pending', 'publishing', 'published', 'rejected', 'failed']).optional().describe('Only show drafts with this status')
+    }),
+    execute: async (args: any) => {
+      const { account, status } = args as { account?: string; status?: DraftStatus };
+      const drafts = DraftService.list({
+        account: account ? SessionService.normalizeAccount(account) : undefined,
+        status
+      });
+      return JSON.stringify({
+        success: true,
+        count: drafts.length,
+        drafts: drafts.map(summarizeDraft)
+      });
+    }
+  },
+  {
+    name: 'instagram_get_draft',
+    description: 'Show a draft with its rendered preview and thumbnail',
+    audited: false,
+    parameters: z.object({
+      draftId: z.string().describe('Draft id returned by a publishing tool')
+    }),
+    execute: async (args: any) => {
+      const { draftId } = args as { draftId: string };
+      const draft = DraftService.get(draftId);
+      if (!draft) {
+        return JSON.stringify({
+          success: false,
+          error: `Draft not found: ${draftId}`
+        });
+      }
+      const text = { type: 'text' as const, text: JSON.stringify({ success: true, draft: summarizeDraft(draft) }) };
+      if (!draft.preview.thumbnail || !fs.existsSync(draft.preview.thumbnail)) {
+        return { content: [text] };
+      }
+      return {
+        content: [
+          text,
+          { type: 'image' as const, data: fs.readFileSync(draft.preview.thumbnail).toString('base64'), mimeType: 'image/jpeg' }
+        ]
+      };
+    }
+  },
+  {
+    name: 'instagram_approve_draft',
+    description: 'Publish a pending draft. Only approvers can call this.',
+    audited: true,
+    parameters: z.object({
+      draftId: z.string().describe('Draft id returned by a publishing tool'),
+      approverToken: approverTokenParameter
+    }),
+    execute: async (args: any) => {
+      const { draftId, approverToken } = args as { draftId: string; approverToken: string };
+      console.log(`Executing instagram_approve_draft for draft ${draftId}`);
+      try {
+        const approver = authenticateApprover(approverToken);
+        const draft = await approveDraft(draftId, approver);
+        return JSON.stringify({
+          success: true,
+          message: 'Draft approved and published',
+          draftId,
+          account: draft.account,
+          approvedBy: approver,
+          ...draft.result
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          draftId,
+          error: error.message,
+          code: error.code
+        });
+      }
+    }
+  },
+  {
+    name: 'instagram_reject_draft',
+    description: 'Reject a pending draft and delete its media. Only approvers can call this.',
+    audited: true,
+    parameters: z.object({
+      draftId: z.string().describe('Draft id returned by a publishing tool'),
+      approverToken: approverTokenParameter,
+      reason: z.string().optional().describe('Why the draft was rejected')
+    }),
+    execute: async (args: any) => {
+      const { draftId, approverToken, reason } = args as { draftId: string; approverToken: string; reason?: string };
+      console.log(`Executing instagram_reject_draft for draft ${draftId}`);
+      try {
+        const approver = authenticateApprover(approverToken);
+        const draft = rejectDraft(draftId, approver, reason);
+        return JSON.stringify({
+          success: true,
+          message: 'Draft rejected',
+          draftId,
+          account: draft.account,
+          rejectedBy: approver,
+          reason: reason ?? null
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          draftId,
+          error: error.message
+        });
+      }
+    }
+  }
+];
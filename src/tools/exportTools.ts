@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { exportAccount } from '../export.js';
+import { credentialParameters, withInstagram } from './credentials.js';
+import type { CredentialArgs } from './credentials.js';
+import { redactArgs } from '../audit.js';
+import type { InstagramTool } from './auditTools.js';
+
+export const exportTools: InstagramTool[] = [
+  {
+    name: 'instagram_export_account',
+    description: 'Archive the account\'s own posts to a local directory: every image and video rendition, captions, timestamps, locations and comments, with a JSON manifest. Re-runs only fetch posts newer than the last export, plus files earlier runs failed to download.',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      includeComments: z.boolean().default(true).describe('Save each post\'s comments in the manifest'),
+      maxCommentsPerPost: z.number().int().min(1).max(10000).default(1000).describe('Stop reading a post\'s comments after this many')
+    }),
+    execute: async (args: any) => {
+      const { includeComments, maxCommentsPerPost } = args as CredentialArgs & {
+        includeComments: boolean;
+        maxCommentsPerPost: number;
+      };
+      console.log('Executing instagram_export_account with args:', redactArgs(args));
+      try {
+        const result = await withInstagram(args, ig => exportAccount(ig, { includeComments, maxCommentsPerPost }));
+        return JSON.stringify({
+          success: true,
+          message: result.added > 0 ? `Exported ${result.added} new posts` : 'No new posts since the last export',
+          ...result
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  }
+];
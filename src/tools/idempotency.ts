@@ -0,0 +1,85 @@
+import { createHash, randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { Tool } from 'fastmcp';
+import { IdempotencyService } from '../core/services/index.js';
+
+// Accepted by every publishing tool
+export const idempotencyKeyParameter = z.string().min(1).max(200).optional()
+  .describe('Client-chosen key for this post; retrying with the same key returns the first result instead of posting again');
+
+// Tells calls started by this server process from ones cut off by a restart
+const INSTANCE_ID = randomUUID();
+
+function fingerprint(args: Record<string, any>): string {
+  const { password, idempotencyKey, ...rest } = args;
+  return createHash('sha256').update(JSON.stringify(rest)).digest('hex');
+}
+
+function succeeded(result: unknown): result is string {
+  try {
+    return typeof result === 'string' && JSON.parse(result).success === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Make a tool safe to retry: a call with an idempotencyKey seen before
+ * returns the first call's result, or an in-progress status while that call
+ * is still running. Failed calls release the key so they can be retried.
+ */
+export function withIdempotency<T extends Tool<any>>(tool: T): T {
+  return {
+    ...tool,
+    execute: async (args: any, context: any) => {
+      if (!args?.idempotencyKey) {
+        return tool.execute(args, context);
+      }
+      const idempotencyKey: string = args.idempotencyKey;
+      const key = [tool.name, (args.account ?? args.username ?? '').toLowerCase(), idempotencyKey].join(':');
+      const hash = fingerprint(args);
+
+      const claim = IdempotencyService.claim(key, hash, INSTANCE_ID);
+      if (!claim.claimed) {
+        const { record } = claim;
+        if (record.fingerprint !== hash) {
+          return JSON.stringify({
+            success: false,
+            idempotencyKey,
+            error: 'This idempotencyKey was already used with different arguments'
+          });
+        }
+        if (record.status === 'completed' && record.result) {
+          return JSON.stringify({ ...JSON.parse(record.result), idempotencyKey, replayed: true });
+        }
+        if (record.instanceId === INSTANCE_ID) {
+          return JSON.stringify({
+            success: false,
+            status: 'in_progress',
+            idempotencyKey,
+            error: 'A call with this idempotencyKey is still in progress; retry later to get its result'
+          });
+        }
+        return JSON.stringify({
+          success: false,
+          status: 'interrupted',
+          idempotencyKey,
+          error: 'A call with this idempotencyKey was interrupted by a server restart and may have been published; check the account, then retry with a new key'
+        });
+      }
+
+      try {
+        const result = await tool.execute(args, context);
+        if (succeeded(result)) {
+          IdempotencyService.complete(key, result);
+        } else {
+          IdempotencyService.release(key);
+        }
+        return result;
+      } catch (error) {
+        IdempotencyService.release(key);
+        throw error;
+      }
+    }
+  };
+}
@@ -1,90 +1,180 @@
 import { z } from 'zod';
-import { login, uploadPhoto, uploadVideo, getProfile, getTimelineFeed } from '../instagram.js';
-import type { Tool } from 'fastmcp';
-import fs from 'fs';
-import path from 'path';
-import { promisify } from 'util';
-import { pipeline } from 'stream';
+import { createSession, completeChallenge, destroySession, getProfile, searchUsers, getTimelinePage, getUserFeedPage, getSavedFeedPage, getHashtagFeedPage, getLocationFeedPage, searchLocations, trimMedia } from '../instagram.js';
+import type { AlbumItemFile, FeedPage, LoginResult, UserTag } from '../instagram.js';
+import { cleanupFile, isVideoInput, materializeMedia, mediaInput } from './mediaFiles.js';
+import type { MediaInput } from './mediaFiles.js';
+import { assertPublishable, preflightMedia } from '../preflight.js';
+import type { MediaKind, MediaSurface } from '../preflight.js';
+import { credentialParameters, withInstagram } from './credentials.js';
+import { draftParameter, publishOrDraft } from './draftTools.js';
+import { idempotencyKeyParameter } from './idempotency.js';
+import type { CredentialArgs } from './credentials.js';
+import { redactArgs } from '../audit.js';
+import type { InstagramTool } from './auditTools.js';
 
-const streamPipeline = promisify(pipeline);
+// Accepted by the upload tools that publish photos
+const normalizeParameter = z.boolean().default(false).describe('Re-encode photos as JPEG and pad them to an allowed aspect ratio when they fail preflight');
 
+// Accepted by the photo, video and carousel upload tools
+const coordinate = (axis: string) => z.number()
+  .min(0, `${axis} must be between 0 and 1`)
+  .max(1, `${axis} must be between 0 and 1`);
 
-async function downloadFile(url: string, filename: string): Promise<string> {
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to download file: ${response.statusText}`);
-  }
-  
-  const tempDir = path.join(process.cwd(), 'temp');
-  if (!fs.existsSync(tempDir)) {
-    fs.mkdirSync(tempDir, { recursive: true });
-  }
-  
-  const filePath = path.join(tempDir, filename);
-  const fileStream = fs.createWriteStream(filePath);
-  
-  if (response.body) {
-    await streamPipeline(response.body as any, fileStream);
-  }
-  
-  return filePath;
-}
+const usertagsParameter = z.array(z.object({
+  username: z.string().min(1).describe('Username of the person to tag'),
+  x: coordinate('x').describe('Horizontal position from 0 (left edge) to 1 (right edge)'),
+  y: coordinate('y').describe('Vertical position from 0 (top edge) to 1 (bottom edge)')
+})).max(20).optional().describe('People to tag, at positions relative to the image');
 
-function cleanupFile(filePath: string): void {
-  try {
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
-    }
-  } catch (error) {
-    console.warn(`Failed to cleanup file ${filePath}:`, error);
-  }
+const locationParameter = z.string().min(1).optional().describe('Location id, or a place name to search for (the top match is used)');
+
+const altTextParameter = z.string().min(1).optional().describe('Alt text describing the media for screen readers');
+
+// Accepted by every tool that returns a page of media
+const feedPageParameters = {
+  limit: z.number().int().min(1).max(50).default(10).describe('Number of posts to fetch'),
+  cursor: z.string().optional().describe('nextCursor from a previous page'),
+  trimmed: z.boolean().default(false).describe('Return only id, code, caption, counts, taken_at and media URLs')
+};
+
+type FeedPageArgs = { limit: number; cursor?: string; trimmed: boolean };
+
+function shapePage(page: FeedPage, trimmed: boolean): FeedPage {
+  return trimmed ? { ...page, items: page.items.map(trimMedia) } : page;
 }
 
-function getFileExtension(url: string): string {
-  const urlPath = new URL(url).pathname;
-  const ext = path.extname(urlPath);
-  return ext || '.jpg'; // Default to .jpg if no extension found
+// Drop the client instance so a login result can be serialized
+function summarizeLogin(result: LoginResult) {
+  if (result.status === 'logged_in') {
+    const { ig, ...summary } = result;
+    return summary;
+  }
+  return result;
 }
 
-export const instagramTools: Tool<any>[] = [
+export const instagramTools: InstagramTool[] = [
   {
-    name: 'instagram_upload_photo',
-    description: 'Upload a photo to Instagram from a URL',
+    name: 'instagram_login',
+    description: 'Log in to Instagram and store an encrypted session that other tools can use through its account handle',
+    audited: true,
     parameters: z.object({
       username: z.string().describe('Instagram username'),
       password: z.string().describe('Instagram password'),
-      imageUrl: z.string().url().describe('URL of the image to upload'),
-      caption: z.string().optional().describe('Photo caption')
+      account: z.string().optional().describe('Account handle to store the session under (defaults to the username)')
+    }),
+    execute: async (args: any) => {
+      const { username, password, account } = args as { username: string; password: string; account?: string };
+      console.log(`Executing instagram_login for ${username}`);
+
+      try {
+        const result = summarizeLogin(await createSession(username, password, account));
+        return JSON.stringify({
+          success: true,
+          username,
+          ...result
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  },
+  {
+    name: 'instagram_verify_login',
+    description: 'Finish a login that returned needs_verification by submitting the SMS, email or authenticator code',
+    audited: true,
+    parameters: z.object({
+      challengeId: z.string().describe('Challenge id returned by instagram_login'),
+      code: z.string().min(4).max(8).describe('Verification code')
+    }),
+    execute: async (args: any) => {
+      const { challengeId, code } = args as { challengeId: string; code: string };
+      console.log(`Executing instagram_verify_login for challenge ${challengeId}`);
+
+      try {
+        const result = summarizeLogin(await completeChallenge(challengeId, code.trim()));
+        return JSON.stringify({
+          success: true,
+          ...result
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          challengeId,
+          error: error.message
+        });
+      }
+    }
+  },
+  {
+    name: 'instagram_logout',
+    description: 'Log out of Instagram and delete the stored session for an account handle',
+    audited: true,
+    parameters: z.object({
+      account: z.string().describe('Account handle of a session created with instagram_login')
+    }),
+    execute: async (args: any) => {
+      const { account } = args as { account: string };
+      console.log(`Executing instagram_logout for ${account}`);
+      const removed = await destroySession(account);
+      return JSON.stringify({
+        success: removed,
+        account
+      });
+    }
+  },
+  {
+    name: 'instagram_upload_photo',
+    description: 'Upload a photo to Instagram from a URL, a local file, base64 data or an MCP resource',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      imageUrl: mediaInput('The image to upload'),
+      caption: z.string().optional().describe('Photo caption'),
+      usertags: usertagsParameter,
+      location: locationParameter,
+      altText: altTextParameter,
+      normalize: normalizeParameter,
+      draft: draftParameter,
+      idempotencyKey: idempotencyKeyParameter
     }),
     execute: async (args: any) => {
-      const { username, password, imageUrl, caption } = args as { username: string; password: string; imageUrl: string; caption?: string };
+      const { imageUrl, caption, usertags, location, altText, normalize } = args as CredentialArgs & {
+        imageUrl: MediaInput;
+        caption?: string;
+        usertags?: UserTag[];
+        location?: string;
+        altText?: string;
+        normalize: boolean;
+      };
 
-      console.log('Executing instagram_upload_photo with args:', args);
+      console.log('Executing instagram_upload_photo with args:', redactArgs(args));
       let localFilePath: string | null = null;
       
       try {
-        const ig = await login(username, password);
-        
-        // Generate filename with timestamp and extension from URL
-        const timestamp = Date.now();
-        const extension = getFileExtension(imageUrl);
-        const filename = `instagram_photo_${timestamp}${extension}`;
+        // Download or copy the image into a temp file
+        localFilePath = await materializeMedia(imageUrl, 'instagram_photo', 'photo');
+        await assertPublishable(localFilePath, 'feed', { kind: 'photo', normalize });
         
-        // Download the file
-        localFilePath = await downloadFile(imageUrl, filename);
-        
-        // Upload to Instagram
-        const result = await uploadPhoto(ig, localFilePath, caption);
+        // Upload to Instagram, or hold it as a draft
+        const result = await publishOrDraft(args, {
+          kind: 'photo',
+          filePath: localFilePath,
+          caption,
+          details: { usertags, location, altText }
+        }, 'Photo');
         
         return JSON.stringify({
           success: true,
-          message: 'Photo uploaded successfully',
           ...result
         });
       } catch (error: any) {
         return JSON.stringify({
           success: false,
-          error: error.message
+          error: error.message,
+          code: error.code
         });
       } finally {
         // Always cleanup the temporary file
@@ -96,47 +186,263 @@ export const instagramTools: Tool<any>[] = [
   },
   {
     name: 'instagram_upload_video',
-    description: 'Upload a video to Instagram from URLs',
+    description: 'Upload a video to Instagram from URLs, local files, base64 data or MCP resources',
+    audited: true,
     parameters: z.object({
-      videoUrl: z.string().url().describe('URL of the video file'),
-      username: z.string().describe('Instagram username'),
-      password: z.string().describe('Instagram password'),
-      coverImageUrl: z.string().url().describe('URL of the cover image file'),
-      caption: z.string().optional().describe('Video caption')
+      ...credentialParameters,
+      videoUrl: mediaInput('The video file'),
+      coverImageUrl: mediaInput('The cover image file'),
+      caption: z.string().optional().describe('Video caption'),
+      usertags: usertagsParameter,
+      location: locationParameter,
+      altText: altTextParameter,
+      draft: draftParameter,
+      idempotencyKey: idempotencyKeyParameter
     }),
     execute: async (args: any) => {
-      const { videoUrl, coverImageUrl, caption ,username,password} = args as { videoUrl: string; coverImageUrl: string; caption?: string; username: string; password: string };
+      const { videoUrl, coverImageUrl, caption, usertags, location, altText } = args as CredentialArgs & {
+        videoUrl: MediaInput;
+        coverImageUrl: MediaInput;
+        caption?: string;
+        usertags?: UserTag[];
+        location?: string;
+        altText?: string;
+      };
       let localVideoPath: string | null = null;
       let localCoverPath: string | null = null;
-      console.log('Executing instagram_upload_video with args:', args);
+      console.log('Executing instagram_upload_video with args:', redactArgs(args));
 
       try {
-   
-        const ig = await login(username, password);
-        
-        // Generate filenames with timestamp and extensions from URLs
-        const timestamp = Date.now();
-        const videoExtension = getFileExtension(videoUrl);
-        const coverExtension = getFileExtension(coverImageUrl);
-        const videoFilename = `instagram_video_${timestamp}${videoExtension}`;
-        const coverFilename = `instagram_cover_${timestamp}${coverExtension}`;
+        // Download or copy both files into temp files
+        localVideoPath = await materializeMedia(videoUrl, 'instagram_video', 'video');
+        localCoverPath = await materializeMedia(coverImageUrl, 'instagram_cover', 'photo');
+        await assertPublishable(localVideoPath, 'feed', { kind: 'video' });
+        await assertPublishable(localCoverPath, 'cover', { kind: 'photo', normalize: true });
         
-        // Download both files
-        localVideoPath = await downloadFile(videoUrl, videoFilename);
-        localCoverPath = await downloadFile(coverImageUrl, coverFilename);
-        
-        // Upload to Instagram
-        const result = await uploadVideo(ig, localVideoPath, localCoverPath, caption);
+        // Upload to Instagram, or hold it as a draft
+        const result = await publishOrDraft(args, {
+          kind: 'video',
+          filePath: localVideoPath,
+          coverImagePath: localCoverPath,
+          caption,
+          details: { usertags, location, altText }
+        }, 'Video');
         
         return JSON.stringify({
           success: true,
-          message: 'Video uploaded successfully',
           ...result
         });
       } catch (error: any) {
         return JSON.stringify({
           success: false,
-          error: error.message
+          error: error.message,
+          code: error.code
+        });
+      } finally {
+        // Always cleanup the temporary files
+        if (localVideoPath) {
+          cleanupFile(localVideoPath);
+        }
+        if (localCoverPath) {
+          cleanupFile(localCoverPath);
+        }
+      }
+    }
+  },
+  {
+    name: 'instagram_upload_carousel',
+    description: 'Upload a carousel (album) of 2-10 photos and videos to Instagram from URLs, local files, base64 data or MCP resources',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      items: z.array(z.object({
+        url: mediaInput('The image or video'),
+        type: z.enum(['photo', 'video']).optional().describe('Media type (guessed from the extension or mime type when omitted)'),
+        coverImageUrl: mediaInput('The cover image, required for videos').optional(),
+        usertags: usertagsParameter,
+        altText: altTextParameter
+      })).min(2).max(10).describe('Ordered carousel items'),
+      caption: z.string().optional().describe('Carousel caption'),
+      location: locationParameter,
+      normalize: normalizeParameter,
+      draft: draftParameter,
+      idempotencyKey: idempotencyKeyParameter
+    }),
+    execute: async (args: any) => {
+      const { items, caption, location, normalize } = args as CredentialArgs & {
+        items: { url: MediaInput; type?: 'photo' | 'video'; coverImageUrl?: MediaInput; usertags?: UserTag[]; altText?: string }[];
+        caption?: string;
+        location?: string;
+        normalize: boolean;
+      };
+      console.log('Executing instagram_upload_carousel with args:', redactArgs(args));
+      const localPaths: string[] = [];
+
+      try {
+        // Validate every item before downloading anything
+        const resolvedItems = items.map((item, index) => {
+          const type = item.type || (isVideoInput(item.url) ? 'video' : 'photo');
+          if (type === 'video' && !item.coverImageUrl) {
+            throw new Error(`Item ${index}: videos need a coverImageUrl`);
+          }
+          return { ...item, type };
+        });
+
+        const albumItems: AlbumItemFile[] = [];
+        for (const [index, item] of resolvedItems.entries()) {
+          try {
+            const filePath = await materializeMedia(item.url, `instagram_carousel_${index}`, item.type);
+            localPaths.push(filePath);
+            await assertPublishable(filePath, 'carousel', { kind: item.type, normalize });
+            if (item.type === 'video') {
+              const coverImagePath = await materializeMedia(item.coverImageUrl as MediaInput, `instagram_carousel_${index}_cover`, 'photo');
+              localPaths.push(coverImagePath);
+              await assertPublishable(coverImagePath, 'cover', { kind: 'photo', normalize: true });
+              albumItems.push({ type: 'video', filePath, coverImagePath, usertags: item.usertags, altText: item.altText });
+            } else {
+              albumItems.push({ type: 'photo', filePath, usertags: item.usertags, altText: item.altText });
+            }
+          } catch (error: any) {
+            // Keep the error's class and code, only prefix the item
+            error.message = `Item ${index}: ${error.message}`;
+            throw error;
+          }
+        }
+
+        const result = await publishOrDraft(args, { kind: 'carousel', items: albumItems, caption, location }, 'Carousel');
+
+        return JSON.stringify({
+          success: true,
+          ...result
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      } finally {
+        // Always cleanup the temporary files
+        localPaths.forEach(cleanupFile);
+      }
+    }
+  },
+  {
+    name: 'instagram_upload_story',
+    description: 'Upload a photo or video story to Instagram from a URL, local file, base64 data or MCP resource, with optional link, mention and hashtag stickers',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      mediaUrl: mediaInput('The image or video'),
+      type: z.enum(['photo', 'video']).optional().describe('Media type (guessed from the extension or mime type when omitted)'),
+      coverImageUrl: mediaInput('The cover image, required for videos').optional(),
+      link: z.string().url().optional().describe('URL for a link sticker'),
+      mentions: z.array(z.string()).max(10).optional().describe('Usernames to add as mention stickers'),
+      hashtags: z.array(z.string()).max(10).optional().describe('Hashtags to add as hashtag stickers'),
+      normalize: normalizeParameter,
+      draft: draftParameter,
+      idempotencyKey: idempotencyKeyParameter
+    }),
+    execute: async (args: any) => {
+      const { mediaUrl, type, coverImageUrl, link, mentions, hashtags, normalize } = args as CredentialArgs & {
+        mediaUrl: MediaInput;
+        type?: 'photo' | 'video';
+        coverImageUrl?: MediaInput;
+        link?: string;
+        mentions?: string[];
+        hashtags?: string[];
+        normalize: boolean;
+      };
+      console.log('Executing instagram_upload_story with args:', redactArgs(args));
+      let localMediaPath: string | null = null;
+      let localCoverPath: string | null = null;
+
+      try {
+        const isVideo = (type || (isVideoInput(mediaUrl) ? 'video' : 'photo')) === 'video';
+        if (isVideo && !coverImageUrl) {
+          throw new Error('Video stories need a coverImageUrl');
+        }
+
+        localMediaPath = await materializeMedia(mediaUrl, 'instagram_story', isVideo ? 'video' : 'photo');
+        await assertPublishable(localMediaPath, 'story', { kind: isVideo ? 'video' : 'photo', normalize });
+        if (isVideo && coverImageUrl) {
+          localCoverPath = await materializeMedia(coverImageUrl, 'instagram_story_cover', 'photo');
+          await assertPublishable(localCoverPath, 'cover', { kind: 'photo', normalize: true });
+        }
+
+        const result = await publishOrDraft(args, {
+          kind: 'story',
+          options: { filePath: localMediaPath, coverImagePath: localCoverPath || undefined, link, mentions, hashtags }
+        }, 'Story');
+
+        return JSON.stringify({
+          success: true,
+          ...result
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      } finally {
+        // Always cleanup the temporary files
+        if (localMediaPath) {
+          cleanupFile(localMediaPath);
+        }
+        if (localCoverPath) {
+          cleanupFile(localCoverPath);
+        }
+      }
+    }
+  },
+  {
+    name: 'instagram_upload_reel',
+    description: 'Upload a Reel to Instagram from a video and a cover frame, each a URL, local file, base64 data or MCP resource',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      videoUrl: mediaInput('The video file'),
+      coverImageUrl: mediaInput('The cover frame image'),
+      caption: z.string().optional().describe('Reel caption'),
+      shareToFeed: z.boolean().default(true).describe('Also show the Reel in the main feed grid'),
+      draft: draftParameter,
+      idempotencyKey: idempotencyKeyParameter
+    }),
+    execute: async (args: any) => {
+      const { videoUrl, coverImageUrl, caption, shareToFeed } = args as CredentialArgs & {
+        videoUrl: MediaInput;
+        coverImageUrl: MediaInput;
+        caption?: string;
+        shareToFeed: boolean;
+      };
+      console.log('Executing instagram_upload_reel with args:', redactArgs(args));
+      let localVideoPath: string | null = null;
+      let localCoverPath: string | null = null;
+
+      try {
+        localVideoPath = await materializeMedia(videoUrl, 'instagram_reel', 'video');
+        localCoverPath = await materializeMedia(coverImageUrl, 'instagram_reel_cover', 'photo');
+        await assertPublishable(localVideoPath, 'reel', { kind: 'video' });
+        await assertPublishable(localCoverPath, 'cover', { kind: 'photo', normalize: true });
+
+        const result = await publishOrDraft(args, {
+          kind: 'reel',
+          filePath: localVideoPath,
+          coverImagePath: localCoverPath,
+          caption,
+          shareToFeed
+        }, 'Reel');
+
+        return JSON.stringify({
+          success: true,
+          ...result
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message,
+          code: error.code
         });
       } finally {
         // Always cleanup the temporary files
@@ -149,73 +455,172 @@ export const instagramTools: Tool<any>[] = [
       }
     }
   },
+  {
+    name: 'instagram_validate_media',
+    description: 'Check an image or video against Instagram\'s format, size, aspect ratio and duration limits for a surface without publishing it',
+    audited: false,
+    parameters: z.object({
+      mediaUrl: mediaInput('The image or video'),
+      surface: z.enum(['feed', 'carousel', 'story', 'reel']).default('feed').describe('Where the media would be published'),
+      type: z.enum(['photo', 'video']).optional().describe('Media type the file is expected to be')
+    }),
+    execute: async (args: any) => {
+      const { mediaUrl, surface, type } = args as { mediaUrl: MediaInput; surface: MediaSurface; type?: MediaKind };
+      console.log('Executing instagram_validate_media with args:', redactArgs(args));
+      let localFilePath: string | null = null;
+
+      try {
+        localFilePath = await materializeMedia(mediaUrl, 'instagram_validate', type);
+        const report = await preflightMedia(localFilePath, surface, { kind: type });
+        return JSON.stringify({
+          success: true,
+          surface,
+          ...report
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      } finally {
+        // Always cleanup the temporary file
+        if (localFilePath) {
+          cleanupFile(localFilePath);
+        }
+      }
+    }
+  },
   {
     name: 'instagram_get_profile',
     description: 'Get Instagram profile information',
+    audited: false,
     parameters: z.object({
-      userId: z.string().describe('Instagram user id'),
-      username: z.string().describe('Instagram username'),
-      password: z.string().describe('Instagram password')
+      ...credentialParameters,
+      user: z.string().describe('Instagram username or numeric user id')
+    }),
+    execute: async (args: any) => {
+      const { user } = args as CredentialArgs & { user: string };
+      console.log('Executing instagram_get_profile with args:', redactArgs(args));
+      const result = await withInstagram(args, ig => getProfile(ig, user));
+      return JSON.stringify(result);
+    }
+  },
+  {
+    name: 'instagram_search_users',
+    description: 'Search Instagram accounts by name or username and return ranked matches',
+    audited: false,
+    parameters: z.object({
+      ...credentialParameters,
+      query: z.string().min(1).describe('Search text'),
+      limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of matches')
     }),
     execute: async (args: any) => {
-      const { userId, username, password } = args as { userId: string; username: string; password: string };
-      console.log('Executing instagram_get_profile with args:', args);
-      const ig = await login(username, password);
-      const result = await getProfile(ig, userId);
+      const { query, limit } = args as CredentialArgs & { query: string; limit: number };
+      console.log('Executing instagram_search_users with args:', redactArgs(args));
+      const result = await withInstagram(args, ig => searchUsers(ig, query, limit));
       return JSON.stringify(result);
     }
   },
   {
     name: 'instagram_get_timeline',
-    description: 'Get timeline feed',
-    
+    description: 'Get a page of the home timeline feed',
+    audited: false,
     parameters: z.object({
-      limit: z.number().int().min(1).max(50).default(10).describe('Number of posts to fetch'),
-      username: z.string().describe('Instagram username'),
-      password: z.string().describe('Instagram password')
+      ...credentialParameters,
+      ...feedPageParameters
     }),
     execute: async (args: any) => {
-      const { limit, username, password } = args as { limit: number; username: string; password: string };
-      console.log('Executing instagram_get_timeline with args:', args);
-      const ig = await login(username, password);
-      console.log(`Fetching timeline feed with limit: ${limit}`);
-      let validatedLimit = limit;
-      if (validatedLimit < 1 || validatedLimit > 50) {
-        validatedLimit = 10; // Default limit if out of range
-      }
-      if (typeof validatedLimit !== 'number' || !Number.isInteger(validatedLimit)) {
-        throw new Error('Limit must be an integer');
-      }
-      const result = await getTimelineFeed(ig, validatedLimit);
-      if (!Array.isArray(result)) {
-        throw new Error('Invalid response from Instagram API');
-      }
-      console.log(`Fetched ${result.length} items from timeline feed`);
-      if (result.length === 0) {
-        console.warn('No items found in the timeline feed');
-      }
-      // Return only the requested number of items
-      if (result.length < validatedLimit) {
-        console.warn(`Requested limit ${validatedLimit} exceeds available items ${result.length}. Returning all available items.`);
-        validatedLimit = result.length; // Adjust limit to available items
-      }
-      // Convert result to JSON string and return
-      console.log(`Returning ${result.slice(0, validatedLimit).length} items`);
-      if (result.length === 0) {
-        return JSON.stringify([]);
-      }
-      // Ensure we return a JSON string of the result
-      if (typeof result !== 'object') {
-        throw new Error('Result is not an object');
-      }
-      if (Array.isArray(result)) {
-        // If result is an array, slice it to the validated limit
-        return JSON.stringify(result.slice(0, validatedLimit));
-      } else {
-        // If result is an object, return it as is
-        return JSON.stringify(result);
-      } 
-
-  }
+      const { limit, cursor, trimmed } = args as CredentialArgs & FeedPageArgs;
+      console.log('Executing instagram_get_timeline with args:', redactArgs(args));
+      const page = await withInstagram(args, ig => getTimelinePage(ig, limit, cursor));
+      return JSON.stringify(shapePage(page, trimmed));
+    }
+  },
+  {
+    name: 'instagram_get_user_feed',
+    description: "Get a page of a user's posts",
+    audited: false,
+    parameters: z.object({
+      ...credentialParameters,
+      user: z.string().describe('Instagram username or numeric user id'),
+      ...feedPageParameters
+    }),
+    execute: async (args: any) => {
+      const { user, limit, cursor, trimmed } = args as CredentialArgs & FeedPageArgs & { user: string };
+      console.log('Executing instagram_get_user_feed with args:', redactArgs(args));
+      const page = await withInstagram(args, ig => getUserFeedPage(ig, user, limit, cursor));
+      return JSON.stringify(shapePage(page, trimmed));
+    }
+  },
+  {
+    name: 'instagram_get_saved_feed',
+    description: 'Get a page of the posts saved by the logged-in account',
+    audited: false,
+    parameters: z.object({
+      ...credentialParameters,
+      ...feedPageParameters
+    }),
+    execute: async (args: any) => {
+      const { limit, cursor, trimmed } = args as CredentialArgs & FeedPageArgs;
+      console.log('Executing instagram_get_saved_feed with args:', redactArgs(args));
+      const page = await withInstagram(args, ig => getSavedFeedPage(ig, limit, cursor));
+      return JSON.stringify(shapePage(page, trimmed));
+    }
+  },
+  {
+    name: 'instagram_hashtag_feed',
+    description: 'Get a page of posts under a hashtag, from its top or recent section',
+    audited: false,
+    parameters: z.object({
+      ...credentialParameters,
+      tag: z.string().min(1).describe('Hashtag, with or without the leading #'),
+      section: z.enum(['top', 'recent']).default('top').describe('Which section of the hashtag page to read'),
+      limit: feedPageParameters.limit,
+      cursor: feedPageParameters.cursor
+    }),
+    execute: async (args: any) => {
+      const { tag, section, limit, cursor } = args as CredentialArgs & { tag: string; section: 'top' | 'recent'; limit: number; cursor?: string };
+      console.log('Executing instagram_hashtag_feed with args:', redactArgs(args));
+      const page = await withInstagram(args, ig => getHashtagFeedPage(ig, tag, section, limit, cursor));
+      return JSON.stringify(page);
+    }
+  },
+  {
+    name: 'instagram_location_search',
+    description: 'Search Instagram locations by name, optionally near given coordinates',
+    audited: false,
+    parameters: z.object({
+      ...credentialParameters,
+      query: z.string().min(1).describe('Place name to search for'),
+      latitude: z.number().min(-90).max(90).optional().describe('Search near this latitude'),
+      longitude: z.number().min(-180).max(180).optional().describe('Search near this longitude'),
+      limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of locations')
+    }),
+    execute: async (args: any) => {
+      const { query, latitude, longitude, limit } = args as CredentialArgs & { query: string; latitude?: number; longitude?: number; limit: number };
+      console.log('Executing instagram_location_search with args:', redactArgs(args));
+      const coordinates = latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined;
+      const result = await withInstagram(args, ig => searchLocations(ig, query, coordinates));
+      return JSON.stringify(result.slice(0, limit));
+    }
+  },
+  {
+    name: 'instagram_location_feed',
+    description: 'Get a page of posts tagged at a location',
+    audited: false,
+    parameters: z.object({
+      ...credentialParameters,
+      locationId: z.string().describe('Location pk from instagram_location_search'),
+      section: z.enum(['recent', 'ranked']).default('recent').describe('Recent posts, or top (ranked) posts'),
+      limit: feedPageParameters.limit,
+      cursor: feedPageParameters.cursor
+    }),
+    execute: async (args: any) => {
+      const { locationId, section, limit, cursor } = args as CredentialArgs & { locationId: string; section: 'recent' | 'ranked'; limit: number; cursor?: string };
+      console.log('Executing instagram_location_feed with args:', redactArgs(args));
+      const page = await withInstagram(args, ig => getLocationFeedPage(ig, locationId, section, limit, cursor));
+      return JSON.stringify(page);
+    }
   }
 ];
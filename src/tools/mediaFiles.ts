@@ -0,0 +1,203 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { readResource } from '../core/resources.js';
+import { safeFetchToFile } from './safeFetch.js';
+
+// Extensions for inline and resource media, so the file name matches the content
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'image/heic': '.heic',
+  'video/mp4': '.mp4',
+  'video/quicktime': '.mov',
+  'video/x-m4v': '.m4v'
+};
+
+/**
+ * Media given as a URL, a file under the media root, inline base64 or an MCP resource
+ */
+export const mediaSourceSchema = z.discriminatedUnion('source', [
+  z.object({
+    source: z.literal('url'),
+    url: z.string().url().describe('http(s) URL of the file')
+  }),
+  z.object({
+    source: z.literal('path'),
+    path: z.string().min(1).describe('File path, relative to the configured media root (IG_MEDIA_ROOT)')
+  }),
+  z.object({
+    source: z.literal('base64'),
+    data: z.string().min(1).describe('Base64 file content, optionally as a data: URL'),
+    mimeType: z.enum(Object.keys(MIME_EXTENSIONS) as [string, ...string[]]).describe('Mime type of the content')
+  }),
+  z.object({
+    source: z.literal('resource'),
+    uri: z.string().min(1).describe('URI of an MCP resource served by this server')
+  })
+]);
+
+/**
+ * A media input: a plain URL string, or any of the tagged sources
+ * @param description What the media is used for
+ */
+export function mediaInput(description: string) {
+  return z.union([z.string().url(), mediaSourceSchema]).describe(`${description}: a URL, or {source: 'url' | 'path' | 'base64' | 'resource', ...}`);
+}
+
+export type MediaInput = string | z.infer<typeof mediaSourceSchema>;
+
+/**
+ * Directory local path inputs are confined to, or undefined when they are disabled
+ */
+export function getMediaRoot(): string | undefined {
+  return process.env.IG_MEDIA_ROOT ? path.resolve(process.env.IG_MEDIA_ROOT) : undefined;
+}
+
+function getTempRoot(): string {
+  return path.join(process.cwd(), 'temp');
+}
+
+/**
+ * Create a fresh directory under ./temp for one file, so concurrent requests
+ * never share or overwrite each other's files
+ */
+function createRequestDir(): string {
+  fs.mkdirSync(getTempRoot(), { recursive: true });
+  return fs.mkdtempSync(path.join(getTempRoot(), 'req-'));
+}
+
+function resolveMediaPath(relativePath: string): string {
+  const root = getMediaRoot();
+  if (!root) {
+    throw new Error('Local file inputs are disabled; set IG_MEDIA_ROOT to allow them');
+  }
+  const isInside = (base: string, target: string) => {
+    const relative = path.relative(base, target);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  };
+  const realRoot = fs.realpathSync(root);
+  const resolved = path.resolve(realRoot, relativePath);
+  if (!isInside(realRoot, resolved)) {
+    throw new Error(`Path is outside the media root: ${relativePath}`);
+  }
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`File not found under the media root: ${relativePath}`);
+  }
+  // Check the real path too, so symlinks cannot point outside the root
+  const realPath = fs.realpathSync(resolved);
+  if (!isInside(realRoot, realPath)) {
+    throw new Error(`Path is outside the media root: ${relativePath}`);
+  }
+  if (!fs.statSync(realPath).isFile()) {
+    throw new Error(`Not a file: ${relativePath}`);
+  }
+  return realPath;
+}
+
+/**
+ * Whether a media input looks like a video, from its extension or mime type
+ */
+export function isVideoInput(input: MediaInput): boolean {
+  if (typeof input === 'string') {
+    return isVideoUrl(input);
+  }
+  switch (input.source) {
+    case 'url':
+      return isVideoUrl(input.url);
+    case 'path':
+      return VIDEO_EXTENSIONS.includes(path.extname(input.path).toLowerCase());
+    case 'base64':
+      return input.mimeType.startsWith('video/');
+    case 'resource':
+      return VIDEO_EXTENSIONS.includes(path.extname(input.uri.split(/[?#]/)[0]).toLowerCase());
+  }
+}
+
+/**
+ * Write a media input to a fresh file in its own temp directory. Every source
+ * ends up as its own temp copy, so callers always pass the result to cleanupFile
+ * and normalization never touches the caller's original.
+ * @param input The media input
+ * @param prefix File name prefix, e.g. "instagram_photo"
+ * @param kind Expected media kind, checked against downloaded content-types
+ * @returns Path of the temp file
+ */
+export async function materializeMedia(input: MediaInput, prefix: string, kind?: 'photo' | 'video'): Promise<string> {
+  const source = typeof input === 'string' ? { source: 'url' as const, url: input } : input;
+
+  switch (source.source) {
+    case 'url':
+      return downloadFile(source.url, `${prefix}${getFileExtension(source.url)}`, kind);
+    case 'path': {
+      const sourcePath = resolveMediaPath(source.path);
+      const filePath = path.join(createRequestDir(), `${prefix}${path.extname(sourcePath).toLowerCase() || '.jpg'}`);
+      fs.copyFileSync(sourcePath, filePath);
+      return filePath;
+    }
+    case 'base64': {
+      const data = Buffer.from(source.data.replace(/^data:[^;,]+;base64,/, ''), 'base64');
+      if (data.length === 0) {
+        throw new Error('Base64 media is empty or not valid base64');
+      }
+      const filePath = path.join(createRequestDir(), `${prefix}${MIME_EXTENSIONS[source.mimeType]}`);
+      fs.writeFileSync(filePath, data);
+      return filePath;
+    }
+    case 'resource': {
+      const { data, mimeType } = await readResource(source.uri);
+      const extension = (mimeType && MIME_EXTENSIONS[mimeType]) || path.extname(source.uri.split(/[?#]/)[0]) || '.jpg';
+      const filePath = path.join(createRequestDir(), `${prefix}${extension}`);
+      fs.writeFileSync(filePath, data);
+      return filePath;
+    }
+  }
+}
+
+/**
+ * Download a URL into its own temp directory through the hardened fetch layer
+ * @param url The URL to fetch
+ * @param filename Name of the file inside the request directory
+ * @param kind Expected media kind, checked against the response content-type
+ * @returns Path of the downloaded file
+ */
+export async function downloadFile(url: string, filename: string, kind?: 'photo' | 'video'): Promise<string> {
+  const requestDir = createRequestDir();
+  const filePath = path.join(requestDir, path.basename(filename));
+  try {
+    await safeFetchToFile(url, filePath, { kind });
+  } catch (error) {
+    fs.rmSync(requestDir, { recursive: true, force: true });
+    throw error;
+  }
+  return filePath;
+}
+
+export function cleanupFile(filePath: string): void {
+  try {
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+    // Remove the per-request directory along with its file
+    const dir = path.dirname(filePath);
+    if (path.dirname(dir) === getTempRoot() && path.basename(dir).startsWith('req-') && fs.readdirSync(dir).length === 0) {
+      fs.rmdirSync(dir);
+    }
+  } catch (error) {
+    console.warn(`Failed to cleanup file ${filePath}:`, error);
+  }
+}
+
+export function getFileExtension(url: string): string {
+  const urlPath = new URL(url).pathname;
+  const ext = path.extname(urlPath);
+  return ext || '.jpg'; // Default to .jpg if no extension found
+}
+
+const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.m4v'];
+
+export function isVideoUrl(url: string): boolean {
+  return VIDEO_EXTENSIONS.includes(getFileExtension(url).toLowerCase());
+}
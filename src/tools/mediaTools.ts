@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { editCaption, setArchived, deleteMedia, parseMediaReference, mediaIdToShortcode } from '../instagram.js';
+import { credentialParameters, withInstagram } from './credentials.js';
+import type { CredentialArgs } from './credentials.js';
+import { redactArgs } from '../audit.js';
+import type { InstagramTool } from './auditTools.js';
+
+const mediaParameter = z.string().min(1).describe('Media id, shortcode or post URL, e.g. the mediaId or code returned by an upload');
+
+function archiveTool(archived: boolean): InstagramTool {
+  const name = archived ? 'instagram_archive_media' : 'instagram_unarchive_media';
+  return {
+    name,
+    description: archived
+      ? 'Archive a post so only its owner can see it'
+      : 'Restore an archived post to the profile',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      media: mediaParameter
+    }),
+    execute: async (args: any) => {
+      const { media } = args as CredentialArgs & { media: string };
+      console.log(`Executing ${name} with args:`, redactArgs(args));
+      try {
+        const mediaId = parseMediaReference(media);
+        await withInstagram(args, ig => setArchived(ig, mediaId, archived));
+        return JSON.stringify({ success: true, mediaId, code: mediaIdToShortcode(mediaId), archived });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  };
+}
+
+export const mediaTools: InstagramTool[] = [
+  {
+    name: 'instagram_edit_caption',
+    description: 'Replace the caption of a published post',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      media: mediaParameter,
+      caption: z.string().max(2200).describe('New caption (empty to remove it)')
+    }),
+    execute: async (args: any) => {
+      const { media, caption } = args as CredentialArgs & { media: string; caption: string };
+      console.log('Executing instagram_edit_caption with args:', redactArgs(args));
+      try {
+        const mediaId = parseMediaReference(media);
+        await withInstagram(args, ig => editCaption(ig, mediaId, caption));
+        return JSON.stringify({ success: true, mediaId, code: mediaIdToShortcode(mediaId), caption });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  },
+  archiveTool(true),
+  archiveTool(false),
+  {
+    name: 'instagram_delete_media',
+    description: 'Permanently delete a published post',
+    audited: true,
+    parameters: z.object({
+      ...credentialParameters,
+      media: mediaParameter
+    }),
+    execute: async (args: any) => {
+      const { media } = args as CredentialArgs & { media: string };
+      console.log('Executing instagram_delete_media with args:', redactArgs(args));
+      try {
+        const mediaId = parseMediaReference(media);
+        await withInstagram(args, ig => deleteMedia(ig, mediaId));
+        return JSON.stringify({ success: true, mediaId, code: mediaIdToShortcode(mediaId), deleted: true });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  }
+];
@@ -0,0 +1,204 @@
+import fs from 'fs';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import type { LookupFunction } from 'net';
+import { pipeline } from 'stream/promises';
+import { Transform } from 'stream';
+
+export type MediaFetchErrorCode =
+  | 'UNSUPPORTED_SCHEME'
+  | 'INVALID_URL'
+  | 'DNS_FAILED'
+  | 'BLOCKED_ADDRESS'
+  | 'TOO_MANY_REDIRECTS'
+  | 'HTTP_ERROR'
+  | 'UNEXPECTED_CONTENT_TYPE'
+  | 'TOO_LARGE'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR';
+
+/**
+ * Thrown when a remote media file is refused or cannot be fetched
+ */
+export class MediaFetchError extends Error {
+  constructor(public readonly code: MediaFetchErrorCode, message: string) {
+    super(message);
+    this.name = 'MediaFetchError';
+  }
+}
+
+export interface SafeFetchOptions {
+  // Expected media kind, checked against the response content-type
+  kind?: 'photo' | 'video';
+}
+
+const ALLOWED_SCHEMES = ['http:', 'https:'];
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local (cloud metadata), carrier-grade NAT, multicast and reserved ranges
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv6'));
+
+/**
+ * Whether an IP address is in a range downloads must never reach
+ */
+export function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return blockedAddresses.check(mapped[1], 'ipv4');
+  }
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * DNS lookup that refuses blocked addresses. It runs at connect time, so a
+ * hostname cannot pass a check and then resolve somewhere else.
+ */
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(new MediaFetchError('DNS_FAILED', `Could not resolve ${hostname}: ${error.code || error.message}`), '', 0);
+      return;
+    }
+    const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      callback(new MediaFetchError('BLOCKED_ADDRESS', `${hostname} resolves to a private or reserved address`), '', 0);
+      return;
+    }
+    // The socket asks for every address when it tries them in turn (autoSelectFamily)
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+function getMaxBytes(): number {
+  return parseInt(process.env.IG_DOWNLOAD_MAX_BYTES || String(100 * 1024 * 1024), 10);
+}
+
+function getTimeoutMs(): number {
+  return parseInt(process.env.IG_DOWNLOAD_TIMEOUT_MS || "60000", 10);
+}
+
+function checkUrl(rawUrl: string): URL {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new MediaFetchError('INVALID_URL', `Not a valid URL: ${rawUrl}`);
+  }
+  if (!ALLOWED_SCHEMES.includes(url.protocol)) {
+    throw new MediaFetchError('UNSUPPORTED_SCHEME', `Only http and https URLs can be downloaded, got ${url.protocol}`);
+  }
+  // Literal IPs skip DNS, so check them here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    throw new MediaFetchError('BLOCKED_ADDRESS', `${host} is a private or reserved address`);
+  }
+  return url;
+}
+
+function checkContentType(contentType: string | undefined, kind?: 'photo' | 'video') {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  // Some storage buckets serve everything as octet-stream; preflight still reads the magic bytes
+  if (type === 'application/octet-stream' || type === 'binary/octet-stream') {
+    return;
+  }
+  const allowed = kind === 'photo' ? ['image/'] : kind === 'video' ? ['video/'] : ['image/', 'video/'];
+  if (!allowed.some(prefix => type.startsWith(prefix))) {
+    throw new MediaFetchError('UNEXPECTED_CONTENT_TYPE', `Expected ${kind || 'image or video'} content, got ${type || 'no content-type'}`);
+  }
+}
+
+function request(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.get(url, { lookup: guardedLookup, signal, headers: { accept: 'image/*,video/*' } }, resolve);
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Download a media URL to a file, refusing private addresses, unexpected
+ * content types and bodies over the size limit
+ * @param rawUrl The URL to fetch
+ * @param filePath Where to write the body
+ * @param options Expected media kind
+ */
+export async function safeFetchToFile(rawUrl: string, filePath: string, options: SafeFetchOptions = {}): Promise<void> {
+  const maxBytes = getMaxBytes();
+  const timeoutMs = getTimeoutMs();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    let url = checkUrl(rawUrl);
+    let response = await request(url, controller.signal);
+    for (let redirects = 0; response.statusCode && response.statusCode >= 300 && response.statusCode < 400 && response.headers.location; redirects++) {
+      response.resume();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new MediaFetchError('TOO_MANY_REDIRECTS', `More than ${MAX_REDIRECTS} redirects`);
+      }
+      // Every hop goes through the same scheme and address checks
+      url = checkUrl(new URL(response.headers.location, url).toString());
+      response = await request(url, controller.signal);
+    }
+
+    if (!response.statusCode || response.statusCode >= 400 || response.statusCode < 200) {
+      response.resume();
+      throw new MediaFetchError('HTTP_ERROR', `Failed to download file: HTTP ${response.statusCode} ${response.statusMessage || ''}`.trim());
+    }
+    checkContentType(response.headers['content-type'], options.kind);
+
+    const declared = parseInt(response.headers['content-length'] || '', 10);
+    if (declared > maxBytes) {
+      response.resume();
+      throw new MediaFetchError('TOO_LARGE', `File is ${declared} bytes, over the ${maxBytes} byte limit`);
+    }
+
+    let received = 0;
+    const limiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        if (received > maxBytes) {
+          callback(new MediaFetchError('TOO_LARGE', `File is over the ${maxBytes} byte limit`));
+          return;
+        }
+        callback(null, chunk);
+      }
+    });
+    await pipeline(response, limiter, fs.createWriteStream(filePath));
+  } catch (error: any) {
+    fs.rmSync(filePath, { force: true });
+    if (error instanceof MediaFetchError) {
+      throw error;
+    }
+    if (controller.signal.aborted) {
+      throw new MediaFetchError('TIMEOUT', `Download timed out after ${timeoutMs} ms`);
+    }
+    // The lookup error can come back wrapped by the socket
+    if (error?.cause instanceof MediaFetchError) {
+      throw error.cause;
+    }
+    throw new MediaFetchError('NETWORK_ERROR', `Failed to download file: ${error.message}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AccountService, ScheduleService, SessionService } from '../core/services/index.js';
+import type { NewScheduledPost, ScheduledPost, ScheduledPostStatus } from '../core/services/index.js';
+import { getSessionUsername } from '../instagram.js';
+import { cleanupFile, isVideoInput, materializeMedia, mediaInput } from './mediaFiles.js';
+import type { MediaInput } from './mediaFiles.js';
+import { assertPublishable } from '../preflight.js';
+import { requiresApproval } from '../drafts.js';
+import { idempotencyKeyParameter } from './idempotency.js';
+import { redactArgs } from '../audit.js';
+import type { InstagramTool } from './auditTools.js';
+
+function parsePublishAt(publishAt: string): string {
+  const date = new Date(publishAt);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid publishAt date: ${publishAt}`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Fetch and check a post's media, then queue it with a copy of the files in
+ * its own directory. Bad media fails here rather than when the post comes due.
+ */
+async function queuePost(
+  post: Omit<NewScheduledPost, 'id' | 'mediaPath' | 'coverImagePath'>,
+  media: MediaInput,
+  cover?: MediaInput
+): Promise<ScheduledPost> {
+  const id = randomUUID();
+  const mediaDir = ScheduleService.getMediaDir(id);
+  const localPaths: string[] = [];
+  const store = (filePath: string, name: string) => {
+    const target = path.join(mediaDir, `${name}${path.extname(filePath)}`);
+    fs.copyFileSync(filePath, target);
+    return target;
+  };
+
+  try {
+    const mediaPath = await materializeMedia(media, 'instagram_scheduled', post.type);
+    localPaths.push(mediaPath);
+    await assertPublishable(mediaPath, 'feed', { kind: post.type });
+    let coverPath: string | undefined;
+    if (post.type === 'video') {
+      coverPath = await materializeMedia(cover as MediaInput, 'instagram_scheduled_cover', 'photo');
+      localPaths.push(coverPath);
+      await assertPublishable(coverPath, 'cover', { kind: 'photo', normalize: true });
+    }
+
+    fs.mkdirSync(mediaDir, { recursive: true });
+    return ScheduleService.add({
+      ...post,
+      id,
+      mediaPath: store(mediaPath, 'media'),
+      coverImagePath: coverPath ? store(coverPath, 'cover') : undefined
+    });
+  } catch (error) {
+    ScheduleService.removeMedia(id);
+    throw error;
+  } finally {
+    localPaths.forEach(cleanupFile);
+  }
+}
+
+export const scheduleTools: InstagramTool[] = [
+  {
+    name: 'instagram_schedule_post',
+    description: 'Queue a photo or video post to be published later by the background worker. The media is fetched and checked now and stored until the post is published.',
+    audited: true,
+    parameters: z.object({
+      account: z.string().describe('Account handle of a session created with instagram_login, or a registry account name'),
+      mediaUrl: mediaInput('The image or video to publish'),
+      type: z.enum(['photo', 'video']).optional().describe('Media type (guessed from the extension or mime type when omitted)'),
+      coverImageUrl: mediaInput('The cover image, required for videos').optional(),
+      caption: z.string().optional().describe('Post caption'),
+      publishAt: z.string().describe('ISO date and time to publish at'),
+      idempotencyKey: idempotencyKeyParameter
+    }),
+    execute: async (args: any) => {
+      const { account, mediaUrl, type, coverImageUrl, caption, publishAt } = args as {
+        account: string;
+        mediaUrl: MediaInput;
+        type?: 'photo' | 'video';
+        coverImageUrl?: MediaInput;
+        caption?: string;
+        publishAt: string;
+      };
+      console.log('Executing instagram_schedule_post with args:', redactArgs(args));
+
+      try {
+        const handle = SessionService.normalizeAccount(account);
+        // Scheduled posts publish unattended, which would skip the approval step
+        if (await requiresApproval({ account: handle })) {
+          throw new Error(`Posts for account "${handle}" need approval; publish with draft mode instead of scheduling`);
+        }
+        // Registry accounts log in on first use, so they need no stored session yet
+        if (!AccountService.get(handle) && !(await getSessionUsername(handle))) {
+          throw new Error(`Unknown account "${handle}". Call instagram_login first or add it to the account registry.`);
+        }
+        const mediaType = type || (isVideoInput(mediaUrl) ? 'video' : 'photo');
+        if (mediaType === 'video' && !coverImageUrl) {
+          throw new Error('Videos need a coverImageUrl');
+        }
+
+        const item = await queuePost({
+          account: handle,
+          type: mediaType,
+          caption,
+          publishAt: parsePublishAt(publishAt)
+        }, mediaUrl, coverImageUrl);
+        return JSON.stringify({
+          success: true,
+          message: 'Post scheduled',
+          item
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      }
+    }
+  },
+  {
+    name: 'instagram_list_scheduled_posts',
+    description: 'List queued and processed scheduled posts',
+    audited: false,
+    parameters: z.object({
+      account: z.string().optional().describe('Only show posts for this account handle'),
+      status: z.enum(['pending', 'publishing', 'published', 'failed', 'cancelled', 'interrupted']).optional().describe('Only show posts with this status')
+    }),
+    execute: async (args: any) => {
+      const { account, status } = args as { account?: string; status?: ScheduledPostStatus };
+      const items = ScheduleService.list({
+        account: account ? SessionService.normalizeAccount(account) : undefined,
+        status
+      });
+      return JSON.stringify(items);
+    }
+  },
+  {
+    name: 'instagram_cancel_scheduled_post',
+    description: 'Cancel a scheduled post that has not been published yet',
+    audited: true,
+    parameters: z.object({
+      id: z.string().describe('Scheduled post id')
+    }),
+    execute: async (args: any) => {
+      const { id } = args as { id: string };
+      const item = ScheduleService.get(id);
+      if (!item) {
+        return JSON.stringify({ success: false, error: `Scheduled post not found: ${id}` });
+      }
+      if (item.status !== 'pending' && item.status !== 'failed' && item.status !== 'interrupted') {
+        return JSON.stringify({ success: false, error: `Cannot cancel a post with status "${item.status}"` });
+      }
+      return JSON.stringify({
+        success: true,
+        item: ScheduleService.update(id, { status: 'cancelled', nextAttemptAt: undefined })
+      });
+    }
+  },
+  {
+    name: 'instagram_reschedule_post',
+    description: 'Move a scheduled post to a new publish time, requeueing it if it failed, was cancelled or was interrupted by a restart',
+    audited: true,
+    parameters: z.object({
+      id: z.string().describe('Scheduled post id'),
+      publishAt: z.string().describe('New ISO date and time to publish at')
+    }),
+    execute: async (args: any) => {
+      const { id, publishAt } = args as { id: string; publishAt: string };
+      try {
+        const item = ScheduleService.get(id);
+        if (!item) {
+          throw new Error(`Scheduled post not found: ${id}`);
+        }
+        if (item.status === 'publishing' || item.status === 'published') {
+          throw new Error(`Cannot reschedule a post with status "${item.status}"`);
+        }
+        return JSON.stringify({
+          success: true,
+          item: ScheduleService.update(id, {
+            status: 'pending',
+            publishAt: parsePublishAt(publishAt),
+            attempts: 0,
+            nextAttemptAt: undefined,
+            lastError: undefined
+          })
+        });
+      } catch (error: any) {
+        return JSON.stringify({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+  }
+];
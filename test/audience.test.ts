@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { beforeEach, describe, test } from 'node:test';
+import { callTool, loadTools, useFakeBackend } from './helpers.js';
+
+useFakeBackend();
+const { resetFake } = await import('../src/adapters/index.js');
+const tools = await loadTools();
+
+// Snapshot ids are millisecond timestamps; keep two exports from sharing one
+function nextMillisecond() {
+  return new Promise(resolve => setTimeout(resolve, 2));
+}
+
+describe('instagram_export_connections', () => {
+  beforeEach(async () => {
+    resetFake();
+    fs.rmSync('data', { recursive: true, force: true });
+    await callTool(tools, 'instagram_login', { username: 'bob', password: 'secret' });
+  });
+
+  test('reports followers gained since the last complete snapshot', async () => {
+    const first = await callTool(tools, 'instagram_export_connections', { account: 'bob', user: 'jane_doe', diff: true, format: 'csv' });
+    assert.equal(first.complete, true);
+    assert.match(first.diff.message, /now the baseline/);
+    assert.equal(fs.readFileSync(first.filePath, 'utf8').split('\n')[0], 'pk,username,full_name,is_private,is_verified');
+
+    // Everyone the fake knows follows jane_doe, so a new login is a new follower
+    await callTool(tools, 'instagram_login', { username: 'new_fan', password: 'secret' });
+    await nextMillisecond();
+    const second = await callTool(tools, 'instagram_export_connections', { account: 'bob', user: 'jane_doe', diff: true });
+    assert.equal(second.count, first.count + 1);
+    assert.equal(second.diff.baselineSnapshotId, first.snapshotId);
+    assert.deepEqual(second.diff.added.map((user: any) => user.username), ['new_fan']);
+    assert.deepEqual(second.diff.removed, []);
+  });
+
+  test('does not diff a list cut short by maxUsers', async () => {
+    const baseline = await callTool(tools, 'instagram_export_connections', { account: 'bob', user: 'jane_doe' });
+    await nextMillisecond();
+    const partial = await callTool(tools, 'instagram_export_connections', { account: 'bob', user: 'jane_doe', diff: true, maxUsers: 2 });
+    assert.equal(partial.count, 2);
+    assert.equal(partial.complete, false);
+    assert.equal(partial.diff.removed, undefined);
+    assert.match(partial.diff.message, /maxUsers \(2\)/);
+
+    const later = await callTool(tools, 'instagram_export_connections', { account: 'bob', user: 'jane_doe', diff: true, baselineSnapshotId: partial.snapshotId });
+    assert.deepEqual(later, { success: false, error: `Snapshot ${partial.snapshotId} is incomplete and cannot be diffed against` });
+
+    // The incomplete export is skipped when picking the latest baseline
+    await nextMillisecond();
+    const complete = await callTool(tools, 'instagram_export_connections', { account: 'bob', user: 'jane_doe', diff: true });
+    assert.equal(complete.diff.baselineSnapshotId, baseline.snapshotId);
+  });
+
+  test('refuses a baseline taken of another list', async () => {
+    const following = await callTool(tools, 'instagram_export_connections', { account: 'bob', user: 'jane_doe', type: 'following' });
+    const followers = await callTool(tools, 'instagram_export_connections', { account: 'bob', user: 'jane_doe', diff: true, baselineSnapshotId: following.snapshotId });
+    assert.equal(followers.success, false);
+    assert.match(followers.error, /is of 1001's following, not 1001's followers/);
+  });
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, test } from 'node:test';
+import type { Tool } from 'fastmcp';
+import { callTool, loadTools, samplePhoto, useFakeBackend } from './helpers.js';
+
+useFakeBackend();
+const { failOn, resetFake } = await import('../src/adapters/index.js');
+const { AuditService } = await import('../src/core/services/index.js');
+const tools = await loadTools();
+const photo = await samplePhoto();
+
+// Tools that only read from Instagram or the local stores. Any other tool changes
+// something, so a new tool missing from this list fails the test until it is audited.
+const READ_ONLY_TOOLS = new Set([
+  'audit_query',
+  'instagram_account_report',
+  'instagram_check_proxy',
+  'instagram_get_draft',
+  'instagram_get_followers',
+  'instagram_get_following',
+  'instagram_get_profile',
+  'instagram_get_saved_feed',
+  'instagram_get_timeline',
+  'instagram_get_user_feed',
+  'instagram_hashtag_feed',
+  'instagram_list_accounts',
+  'instagram_list_comments',
+  'instagram_list_drafts',
+  'instagram_list_inbox',
+  'instagram_list_message_requests',
+  'instagram_list_scheduled_posts',
+  'instagram_location_feed',
+  'instagram_location_search',
+  'instagram_read_thread',
+  'instagram_search_users',
+  'instagram_validate_media'
+]);
+
+describe('audit log', () => {
+  beforeEach(async () => {
+    resetFake();
+    await callTool(tools, 'instagram_login', { username: 'bob', password: 'secret' });
+  });
+
+  test('records a call of every tool that is not read-only', async () => {
+    const instagramTools = [...tools.values()].filter(tool => /^(instagram|audit)_/.test(tool.name));
+    for (const tool of instagramTools) {
+      // Empty arguments make most tools fail early, which is still audited
+      try {
+        await tool.execute({}, {} as Parameters<Tool<any>['execute']>[1]);
+      } catch {
+        // Thrown errors are audited too
+      }
+    }
+
+    const audited = instagramTools.filter(tool => AuditService.query({ tool: tool.name, limit: 1 }).length > 0).map(tool => tool.name);
+    const expected = instagramTools.filter(tool => !READ_ONLY_TOOLS.has(tool.name)).map(tool => tool.name);
+    assert.deepEqual(audited, expected);
+  });
+
+  test('records the outcome, media id and redacted arguments of a call', async () => {
+    const upload = await callTool(tools, 'instagram_upload_photo', { account: 'bob', imageUrl: photo, caption: 'Audited' });
+    failOn('uploadPhoto', 'Instagram is down');
+    await callTool(tools, 'instagram_upload_photo', { account: 'bob', imageUrl: photo, caption: 'Refused' });
+
+    const [failed, succeeded] = AuditService.query({ account: 'bob', tool: 'instagram_upload_photo' });
+    assert.equal(succeeded.outcome, 'success');
+    assert.equal(succeeded.mediaId, upload.mediaId);
+    assert.equal(succeeded.args.caption, 'Audited');
+    assert.match(succeeded.args.imageUrl.data, /^\[\d+ chars of base64\]$/);
+    assert.equal(succeeded.mcpSession.transport, 'stdio');
+    assert.equal(failed.outcome, 'failure');
+    assert.equal(failed.error, 'Instagram is down');
+
+    const [login] = AuditService.query({ account: 'bob', tool: 'instagram_login' });
+    assert.equal(login.args.password, '[redacted]');
+  });
+});
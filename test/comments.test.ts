@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, test } from 'node:test';
+import { callTool, loadTools, useFakeBackend } from './helpers.js';
+
+useFakeBackend();
+const { failOn, resetFake } = await import('../src/adapters/index.js');
+const tools = await loadTools();
+
+describe('comment tools', () => {
+  let mediaId: string;
+
+  beforeEach(async () => {
+    resetFake();
+    await callTool(tools, 'instagram_login', { username: 'jane_doe', password: 'secret' });
+    const feed = await callTool(tools, 'instagram_get_user_feed', { account: 'jane_doe', user: 'jane_doe' });
+    // The sunset post has two comments
+    mediaId = feed.items[1].id;
+  });
+
+  test('lists and replies to comments', async () => {
+    const page = await callTool(tools, 'instagram_list_comments', { account: 'jane_doe', mediaId, limit: 1 });
+    assert.equal(page.items[0].text, 'Beautiful!');
+    assert.ok(page.nextCursor);
+
+    const reply = await callTool(tools, 'instagram_reply_comment', { account: 'jane_doe', mediaId, commentId: page.items[0].pk, text: 'Thanks!' });
+    assert.equal(reply.success, true);
+
+    const all = await callTool(tools, 'instagram_list_comments', { account: 'jane_doe', mediaId });
+    assert.deepEqual(all.items.map((comment: any) => comment.text), ['Beautiful!', 'Great shot 📸', 'Thanks!']);
+    assert.equal(all.items[0].child_comment_count, 1);
+  });
+
+  test('refuses replies once comments are turned off', async () => {
+    await callTool(tools, 'instagram_set_comments_enabled', { account: 'jane_doe', mediaId, enabled: false });
+    const { items } = await callTool(tools, 'instagram_list_comments', { account: 'jane_doe', mediaId });
+    const reply = await callTool(tools, 'instagram_reply_comment', { account: 'jane_doe', mediaId, commentId: items[0].pk, text: 'Thanks!' });
+    assert.deepEqual(reply, { success: false, error: 'Comments are turned off for this post' });
+  });
+
+  test('reports blocklisted comments and deletes only those from the report', async () => {
+    const report = await callTool(tools, 'instagram_moderate_comments', { account: 'jane_doe', mediaId, blocklist: ['SHOT'] });
+    assert.equal(report.applied, false);
+    assert.equal(report.scanned, 2);
+    assert.deepEqual(report.matches.map((comment: any) => comment.matched), [['SHOT']]);
+
+    const applied = await callTool(tools, 'instagram_moderate_comments', { account: 'jane_doe', mediaId, apply: true, commentIds: report.commentIds });
+    assert.equal(applied.success, true);
+    assert.deepEqual(applied.deleted, report.commentIds);
+
+    const remaining = await callTool(tools, 'instagram_list_comments', { account: 'jane_doe', mediaId });
+    assert.deepEqual(remaining.items.map((comment: any) => comment.text), ['Beautiful!']);
+  });
+
+  test('lists the comments that could not be deleted', async () => {
+    const { items } = await callTool(tools, 'instagram_list_comments', { account: 'jane_doe', mediaId });
+    failOn('deleteComments', 'Instagram is down');
+    const applied = await callTool(tools, 'instagram_moderate_comments', { account: 'jane_doe', mediaId, apply: true, commentIds: [items[0].pk] });
+    assert.equal(applied.success, false);
+    assert.deepEqual(applied.deleted, []);
+    assert.deepEqual(applied.failed, [items[0].pk]);
+    assert.equal(applied.error, 'Instagram is down');
+  });
+
+  test('asks for the report\'s commentIds before deleting', async () => {
+    const applied = await callTool(tools, 'instagram_moderate_comments', { account: 'jane_doe', mediaId, blocklist: ['shot'], apply: true });
+    assert.equal(applied.success, false);
+    assert.match(applied.error, /commentIds/);
+  });
+});
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, test } from 'node:test';
+import { callTool, loadTools, useFakeBackend } from './helpers.js';
+
+useFakeBackend();
+const { resetFake } = await import('../src/adapters/index.js');
+const tools = await loadTools();
+
+describe('direct message tools', () => {
+  beforeEach(async () => {
+    resetFake();
+    await callTool(tools, 'instagram_login', { username: 'bob', password: 'secret' });
+  });
+
+  test('reads a thread and clears its unread count', async () => {
+    const inbox = await callTool(tools, 'instagram_list_inbox', { account: 'bob' });
+    assert.equal(inbox.unreadThreads, 1);
+    const [thread] = inbox.items;
+    assert.equal(thread.title, 'jane_doe');
+
+    const messages = await callTool(tools, 'instagram_read_thread', { account: 'bob', threadId: thread.thread_id });
+    assert.deepEqual(messages.items.map((item: any) => item.text), ['Are we still on for Friday?']);
+    assert.equal((await callTool(tools, 'instagram_list_inbox', { account: 'bob' })).unreadThreads, 0);
+  });
+
+  test('sends to a thread, or starts one with a new recipient', async () => {
+    const inbox = await callTool(tools, 'instagram_list_inbox', { account: 'bob' });
+    const reply = await callTool(tools, 'instagram_send_direct_text', { account: 'bob', threadId: inbox.items[0].thread_id, text: 'Yes!' });
+    assert.equal(reply.success, true);
+    const thread = await callTool(tools, 'instagram_read_thread', { account: 'bob', threadId: inbox.items[0].thread_id, limit: 1 });
+    assert.equal(thread.items[0].text, 'Yes!');
+    assert.ok(thread.nextCursor);
+
+    const started = await callTool(tools, 'instagram_send_direct_text', { account: 'bob', recipient: '@instagram', text: 'Hello' });
+    assert.equal(started.success, true);
+    const updated = await callTool(tools, 'instagram_list_inbox', { account: 'bob' });
+    assert.equal(updated.items[0].thread_id, started.result.thread_id);
+    assert.equal(updated.items[0].last_message.text, 'Hello');
+
+    const unknown = await callTool(tools, 'instagram_send_direct_text', { account: 'bob', recipient: 'nobody_here', text: 'Hello' });
+    assert.deepEqual(unknown, { success: false, error: 'Instagram user not found: nobody_here' });
+  });
+
+  test('moves an approved message request into the inbox', async () => {
+    const requests = await callTool(tools, 'instagram_list_message_requests', { account: 'bob' });
+    assert.deepEqual(requests.items.map((thread: any) => thread.title), ['john_smith']);
+
+    const approved = await callTool(tools, 'instagram_respond_message_request', { account: 'bob', threadId: requests.items[0].thread_id, action: 'approve' });
+    assert.equal(approved.success, true);
+    assert.equal((await callTool(tools, 'instagram_list_message_requests', { account: 'bob' })).items.length, 0);
+    const inbox = await callTool(tools, 'instagram_list_inbox', { account: 'bob' });
+    assert.ok(inbox.items.some((thread: any) => thread.thread_id === requests.items[0].thread_id));
+  });
+
+  test('drops a declined message request', async () => {
+    const requests = await callTool(tools, 'instagram_list_message_requests', { account: 'bob' });
+    const threadId = requests.items[0].thread_id;
+    await callTool(tools, 'instagram_respond_message_request', { account: 'bob', threadId, action: 'decline' });
+
+    assert.equal((await callTool(tools, 'instagram_list_message_requests', { account: 'bob' })).items.length, 0);
+    const inbox = await callTool(tools, 'instagram_list_inbox', { account: 'bob' });
+    assert.equal(inbox.items.some((thread: any) => thread.thread_id === threadId), false);
+
+    const again = await callTool(tools, 'instagram_respond_message_request', { account: 'bob', threadId, action: 'approve' });
+    assert.deepEqual(again, { success: false, error: `Message request not found: ${threadId}` });
+  });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, test } from 'node:test';
+import { callTool, loadTools, samplePhoto, useFakeBackend } from './helpers.js';
+
+useFakeBackend();
+process.env.IG_REQUIRE_APPROVAL = 'brand';
+process.env.IG_APPROVERS = 'alice:alice-token';
+const { getPublishedMedia, resetFake } = await import('../src/adapters/index.js');
+const tools = await loadTools();
+const photo = await samplePhoto();
+
+describe('draft approval', () => {
+  beforeEach(async () => {
+    resetFake();
+    await callTool(tools, 'instagram_login', { username: 'brand', password: 'secret' });
+  });
+
+  test('holds posts for an account that requires approval until an approver publishes them', async () => {
+    const upload = await callTool(tools, 'instagram_upload_photo', { account: 'brand', imageUrl: photo, caption: 'Launch day' });
+    assert.equal(upload.success, true);
+    assert.equal(upload.status, 'pending_approval');
+    assert.equal(getPublishedMedia().length, 0);
+
+    const refused = await callTool(tools, 'instagram_approve_draft', { draftId: upload.draftId, approverToken: 'wrong-token' });
+    assert.equal(refused.success, false);
+    assert.equal(getPublishedMedia().length, 0);
+
+    const approved = await callTool(tools, 'instagram_approve_draft', { draftId: upload.draftId, approverToken: 'alice-token' });
+    assert.equal(approved.success, true);
+    const published = getPublishedMedia();
+    assert.equal(published.length, 1);
+    assert.equal(published[0].caption, 'Launch day');
+  });
+
+  test('cannot be skipped by logging in under another handle', async () => {
+    await callTool(tools, 'instagram_login', { username: 'brand', password: 'secret', account: 'side' });
+    const upload = await callTool(tools, 'instagram_upload_photo', { account: 'side', imageUrl: photo });
+    assert.equal(upload.status, 'pending_approval');
+    assert.equal(getPublishedMedia().length, 0);
+  });
+
+  test('rejected drafts are never published', async () => {
+    const upload = await callTool(tools, 'instagram_upload_photo', { account: 'brand', imageUrl: photo });
+    const rejected = await callTool(tools, 'instagram_reject_draft', { draftId: upload.draftId, approverToken: 'alice-token', reason: 'Off brand' });
+    assert.equal(rejected.success, true);
+
+    const approved = await callTool(tools, 'instagram_approve_draft', { draftId: upload.draftId, approverToken: 'alice-token' });
+    assert.equal(approved.success, false);
+    assert.equal(getPublishedMedia().length, 0);
+  });
+});
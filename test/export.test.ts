@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import https from 'https';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { callTool, loadTools, useFakeBackend } from './helpers.js';
+
+useFakeBackend();
+const { clearFailures, failOn, resetFake } = await import('../src/adapters/index.js');
+const tools = await loadTools();
+
+/**
+ * Answer the fake's media URLs with the given status instead of going to the network
+ */
+function serveMedia(statusCode: number) {
+  return mock.method(https, 'get', (_url: URL, _options: unknown, callback: (response: unknown) => void) => {
+    const response = Object.assign(Readable.from([Buffer.from('media')]), { statusCode, headers: { 'content-type': 'image/jpeg' } });
+    process.nextTick(() => callback(response));
+    return new EventEmitter();
+  });
+}
+
+function readManifest(manifestPath: string) {
+  return JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+}
+
+describe('instagram_export_account', () => {
+  beforeEach(async () => {
+    resetFake();
+    // jane_doe has a carousel and, before it, a post with comments
+    await callTool(tools, 'instagram_login', { username: 'jane_doe', password: 'secret' });
+    fs.rmSync('exports', { recursive: true, force: true });
+  });
+
+  test('keeps the posts of a run that dies partway and finishes them next time', async () => {
+    const served = serveMedia(200);
+    try {
+      failOn('getCommentsPage', 'Instagram is down');
+      const interrupted = await callTool(tools, 'instagram_export_account', { account: 'jane_doe' });
+      assert.equal(interrupted.success, false);
+      const manifestPath = 'exports/account-jane_doe/manifest.json';
+      assert.deepEqual(readManifest(manifestPath).media.map((item: any) => item.caption), ['Brunch spots #food #travel']);
+
+      clearFailures();
+      const resumed = await callTool(tools, 'instagram_export_account', { account: 'jane_doe' });
+      assert.equal(resumed.added, 1);
+      assert.equal(resumed.total, 2);
+      const manifest = readManifest(manifestPath);
+      assert.deepEqual(manifest.media.map((item: any) => item.caption), ['Brunch spots #food #travel', 'Sunset over the river #travel #sunset']);
+      assert.equal(manifest.media[1].comments.length, 2);
+    } finally {
+      served.mock.restore();
+    }
+  });
+
+  test('downloads files again on the next run when they failed', async () => {
+    const unavailable = serveMedia(503);
+    let first;
+    try {
+      first = await callTool(tools, 'instagram_export_account', { account: 'jane_doe' });
+    } finally {
+      unavailable.mock.restore();
+    }
+    assert.equal(first.success, true);
+    assert.ok(first.failedDownloads > 0);
+
+    const served = serveMedia(200);
+    try {
+      const second = await callTool(tools, 'instagram_export_account', { account: 'jane_doe' });
+      assert.equal(second.added, 0);
+      assert.equal(second.recoveredDownloads, first.failedDownloads);
+      assert.equal(second.failedDownloads, 0);
+
+      const files = readManifest(second.manifestPath).media.flatMap((item: any) => item.files);
+      assert.ok(files.every((file: any) => file.path && fs.existsSync(`${second.directory}/${file.path}`)));
+    } finally {
+      served.mock.restore();
+    }
+  });
+});
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, test } from 'node:test';
+import { callTool, loadTools, useFakeBackend } from './helpers.js';
+
+useFakeBackend();
+const { resetFake } = await import('../src/adapters/index.js');
+const tools = await loadTools();
+
+describe('feed tools', () => {
+  beforeEach(async () => {
+    resetFake();
+    await callTool(tools, 'instagram_login', { username: 'bob', password: 'secret' });
+  });
+
+  test('pages through the timeline with nextCursor', async () => {
+    const first = await callTool(tools, 'instagram_get_timeline', { account: 'bob', limit: 2 });
+    assert.equal(first.items.length, 2);
+    assert.ok(first.nextCursor);
+
+    const second = await callTool(tools, 'instagram_get_timeline', { account: 'bob', limit: 2, cursor: first.nextCursor });
+    assert.equal(second.items.length, 1);
+    assert.equal(second.nextCursor, null);
+    const ids = [...first.items, ...second.items].map((item: any) => item.id);
+    assert.equal(new Set(ids).size, 3);
+  });
+
+  test('refuses a cursor from another feed', async () => {
+    const timeline = await callTool(tools, 'instagram_get_timeline', { account: 'bob', limit: 1 });
+    await assert.rejects(
+      callTool(tools, 'instagram_get_user_feed', { account: 'bob', user: 'jane_doe', cursor: timeline.nextCursor }),
+      /Cursor belongs to a different feed \(timeline\)/
+    );
+  });
+
+  test('returns only the summary fields of trimmed user feed posts', async () => {
+    const page = await callTool(tools, 'instagram_get_user_feed', { account: 'bob', user: 'jane_doe', trimmed: true });
+    assert.deepEqual(page.items.map((item: any) => item.caption), ['Brunch spots #food #travel', 'Sunset over the river #travel #sunset']);
+    assert.equal(page.items[0].user, undefined);
+    assert.equal(page.nextCursor, null);
+  });
+
+  test('orders the top section of a hashtag by likes', async () => {
+    const top = await callTool(tools, 'instagram_hashtag_feed', { account: 'bob', tag: '#travel', section: 'top', limit: 1 });
+    assert.equal(top.items[0].caption, 'Sunset over the river #travel #sunset');
+
+    const rest = await callTool(tools, 'instagram_hashtag_feed', { account: 'bob', tag: 'travel', section: 'top', limit: 1, cursor: top.nextCursor });
+    assert.equal(rest.items[0].caption, 'Brunch spots #food #travel');
+    assert.equal(rest.nextCursor, null);
+  });
+
+  test('finds posts through a location search', async () => {
+    const [london] = await callTool(tools, 'instagram_location_search', { account: 'bob', query: 'London' }) as any[];
+    const page = await callTool(tools, 'instagram_location_feed', { account: 'bob', locationId: london.pk });
+    assert.deepEqual(page.items.map((item: any) => item.caption), ['Sunset over the river #travel #sunset']);
+  });
+});
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, mock } from 'node:test';
+import sharp from 'sharp';
+import type { FastMCP, Tool } from 'fastmcp';
+import type { ZodTypeAny } from 'zod';
+
+/**
+ * Run the server against the in-memory Instagram backend, with every store
+ * the server writes kept in a fresh directory
+ * @returns The directory the stores are written to
+ */
+export function useFakeBackend(): string {
+  for (const name of Object.keys(process.env)) {
+    if (name.startsWith('IG_')) {
+      delete process.env[name];
+    }
+  }
+  process.env.IG_BACKEND = 'fake';
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'instagram-mcp-test-'));
+  process.chdir(directory);
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+  // Tools log every call; keep the test report readable
+  mock.method(console, 'log', () => {});
+  return directory;
+}
+
+/**
+ * Every tool, wrapped exactly as registerTools hands it to the server
+ */
+export async function loadTools(): Promise<Map<string, Tool<any>>> {
+  const { registerTools } = await import('../src/core/tools.js');
+  const tools = new Map<string, Tool<any>>();
+  const server = { addTool: (tool: Tool<any>) => tools.set(tool.name, tool) };
+  registerTools(server as unknown as FastMCP);
+  return tools;
+}
+
+/**
+ * Call a tool the way FastMCP does, validating the arguments first
+ * @returns The tool's JSON response, parsed
+ */
+export async function callTool(tools: Map<string, Tool<any>>, name: string, args: Record<string, unknown>): Promise<Record<string, any>> {
+  const tool = tools.get(name);
+  if (!tool) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+  // Every tool in this server declares its parameters with zod
+  const parameters = tool.parameters as ZodTypeAny;
+  const result = await tool.execute(parameters.parse(args), {} as Parameters<Tool<any>['execute']>[1]);
+  return JSON.parse(result as string);
+}
+
+/**
+ * A square JPEG that passes feed preflight, as a base64 media input
+ */
+export async function samplePhoto(background: string = '#3a7bd5') {
+  const data = await sharp({ create: { width: 1080, height: 1080, channels: 3, background } }).jpeg().toBuffer();
+  return { source: 'base64' as const, data: data.toString('base64'), mimeType: 'image/jpeg' as const };
+}
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, test } from 'node:test';
+import { callTool, loadTools, useFakeBackend } from './helpers.js';
+
+useFakeBackend();
+const { FAKE_VERIFICATION_CODE, failOn, resetFake } = await import('../src/adapters/index.js');
+const tools = await loadTools();
+
+describe('instagram_login', () => {
+  beforeEach(() => {
+    resetFake();
+  });
+
+  test('stores a session that other tools can use by its handle', async () => {
+    const login = await callTool(tools, 'instagram_login', { username: 'Bob', password: 'secret', account: 'main' });
+    assert.equal(login.success, true);
+    assert.equal(login.status, 'logged_in');
+    assert.equal(login.account, 'main');
+
+    const profile = await callTool(tools, 'instagram_get_profile', { account: 'main', user: 'jane_doe' });
+    assert.equal(profile.username, 'jane_doe');
+  });
+
+  test('asks for a verification code when a two-factor check is injected', async () => {
+    failOn('two_factor');
+    const login = await callTool(tools, 'instagram_login', { username: 'bob', password: 'secret' });
+    assert.equal(login.status, 'needs_verification');
+    assert.equal(login.type, 'two_factor');
+
+    const wrong = await callTool(tools, 'instagram_verify_login', { challengeId: login.challengeId, code: '000000' });
+    assert.equal(wrong.success, false);
+
+    const verified = await callTool(tools, 'instagram_verify_login', { challengeId: login.challengeId, code: FAKE_VERIFICATION_CODE });
+    assert.equal(verified.success, true);
+    assert.equal(verified.status, 'logged_in');
+  });
+
+  test('reports a failed login', async () => {
+    failOn('createSession', 'The password you entered is incorrect');
+    const login = await callTool(tools, 'instagram_login', { username: 'bob', password: 'wrong' });
+    assert.deepEqual(login, { success: false, error: 'The password you entered is incorrect' });
+  });
+
+  test('logout drops the session', async () => {
+    await callTool(tools, 'instagram_login', { username: 'bob', password: 'secret' });
+    const logout = await callTool(tools, 'instagram_logout', { account: 'bob' });
+    assert.equal(logout.success, true);
+    await assert.rejects(callTool(tools, 'instagram_get_profile', { account: 'bob', user: 'jane_doe' }), /No session found/);
+  });
+});
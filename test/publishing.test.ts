@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { beforeEach, describe, test } from 'node:test';
+import { callTool, loadTools, samplePhoto, useFakeBackend } from './helpers.js';
+
+const directory = useFakeBackend();
+const { clearFailures, failOn, getPublishedMedia, resetFake } = await import('../src/adapters/index.js');
+const { AuditService } = await import('../src/core/services/index.js');
+const tools = await loadTools();
+const photo = await samplePhoto();
+
+describe('instagram_upload_photo', () => {
+  beforeEach(async () => {
+    resetFake();
+    await callTool(tools, 'instagram_login', { username: 'bob', password: 'secret' });
+  });
+
+  test('publishes through the account session', async () => {
+    const upload = await callTool(tools, 'instagram_upload_photo', { account: 'bob', imageUrl: photo, caption: 'Hello', location: 'Paris' });
+    assert.equal(upload.success, true);
+
+    const published = getPublishedMedia();
+    assert.equal(published.length, 1);
+    assert.equal(published[0].id, upload.mediaId);
+    assert.equal(published[0].caption, 'Hello');
+  });
+
+  test('replays a repeated idempotency key instead of publishing twice', async () => {
+    const args = { account: 'bob', imageUrl: photo, caption: 'Once', idempotencyKey: 'post-1' };
+    const first = await callTool(tools, 'instagram_upload_photo', args);
+    const second = await callTool(tools, 'instagram_upload_photo', args);
+
+    assert.equal(first.success, true);
+    assert.equal(second.replayed, true);
+    assert.equal(second.mediaId, first.mediaId);
+    assert.equal(getPublishedMedia().length, 1);
+
+    const entries = AuditService.query({ tool: 'instagram_upload_photo' }).filter(entry => entry.args.idempotencyKey === 'post-1');
+    assert.deepEqual(entries.map(entry => entry.replayed), [true, undefined]);
+  });
+
+  test('refuses to reuse an idempotency key with different arguments', async () => {
+    await callTool(tools, 'instagram_upload_photo', { account: 'bob', imageUrl: photo, caption: 'One', idempotencyKey: 'post-2' });
+    const reused = await callTool(tools, 'instagram_upload_photo', { account: 'bob', imageUrl: photo, caption: 'Two', idempotencyKey: 'post-2' });
+    assert.equal(reused.success, false);
+    assert.match(reused.error, /different arguments/);
+    assert.equal(getPublishedMedia().length, 1);
+  });
+
+  test('reports an injected upload failure and lets the same key be retried', async () => {
+    failOn('uploadPhoto', 'Instagram is down');
+    const args = { account: 'bob', imageUrl: photo, idempotencyKey: 'post-3' };
+    const failed = await callTool(tools, 'instagram_upload_photo', args);
+    assert.deepEqual(failed, { success: false, error: 'Instagram is down' });
+    assert.equal(getPublishedMedia().length, 0);
+
+    clearFailures();
+    const retried = await callTool(tools, 'instagram_upload_photo', args);
+    assert.equal(retried.success, true);
+    assert.equal(retried.replayed, undefined);
+    assert.equal(getPublishedMedia().length, 1);
+  });
+});
+
+describe('IG_FAKE_FIXTURES', () => {
+  test('adds users and posts to the canned data', async () => {
+    const fixtures = path.join(directory, 'fixtures.json');
+    fs.writeFileSync(fixtures, JSON.stringify({
+      users: [{ username: 'fixture_fan', full_name: 'Fixture Fan' }],
+      media: [{ owner: 'fixture_fan', caption: 'From a fixture', locationId: '6889842' }]
+    }));
+    process.env.IG_FAKE_FIXTURES = fixtures;
+    try {
+      resetFake();
+      await callTool(tools, 'instagram_login', { username: 'bob', password: 'secret' });
+
+      const profile = await callTool(tools, 'instagram_get_profile', { account: 'bob', user: 'fixture_fan' });
+      assert.equal(profile.full_name, 'Fixture Fan');
+
+      const feed = await callTool(tools, 'instagram_get_user_feed', { account: 'bob', user: 'fixture_fan' });
+      assert.deepEqual(feed.items.map((item: any) => item.caption?.text), ['From a fixture']);
+      assert.equal(feed.items[0].location.name, 'Paris, France');
+    } finally {
+      delete process.env.IG_FAKE_FIXTURES;
+      resetFake();
+    }
+  });
+});
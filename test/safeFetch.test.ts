@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import https from 'https';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { callTool, loadTools, useFakeBackend } from './helpers.js';
+
+useFakeBackend();
+const { getPublishedMedia, resetFake } = await import('../src/adapters/index.js');
+const tools = await loadTools();
+
+describe('media URL downloads', () => {
+  beforeEach(async () => {
+    resetFake();
+    await callTool(tools, 'instagram_login', { username: 'bob', password: 'secret' });
+  });
+
+  for (const url of ['http://127.0.0.1/photo.jpg', 'http://169.254.169.254/latest/meta-data', 'http://[::1]/photo.jpg', 'http://10.0.0.5/photo.jpg']) {
+    test(`refuses ${url}`, async () => {
+      const upload = await callTool(tools, 'instagram_upload_photo', { account: 'bob', imageUrl: url });
+      assert.equal(upload.success, false);
+      assert.equal(upload.code, 'BLOCKED_ADDRESS');
+      assert.equal(getPublishedMedia().length, 0);
+    });
+  }
+
+  test('refuses a host name that resolves to a private address', async () => {
+    const upload = await callTool(tools, 'instagram_upload_photo', { account: 'bob', imageUrl: 'http://localhost/photo.jpg' });
+    assert.equal(upload.code, 'BLOCKED_ADDRESS');
+    assert.match(upload.error, /localhost resolves to a private or reserved address/);
+  });
+
+  test('refuses a redirect to a private address', async () => {
+    const redirect = mock.method(https, 'get', (_url: URL, _options: unknown, callback: (response: unknown) => void) => {
+      const response = Object.assign(Readable.from([]), { statusCode: 302, headers: { location: 'http://169.254.169.254/latest/meta-data' } });
+      process.nextTick(() => callback(response));
+      return new EventEmitter();
+    });
+    const followed = mock.method(http, 'get');
+    try {
+      const upload = await callTool(tools, 'instagram_upload_photo', { account: 'bob', imageUrl: 'https://cdn.example.com/photo.jpg' });
+      assert.equal(upload.code, 'BLOCKED_ADDRESS');
+      assert.equal(redirect.mock.callCount(), 1);
+      assert.equal(followed.mock.callCount(), 0);
+    } finally {
+      redirect.mock.restore();
+      followed.mock.restore();
+    }
+  });
+});
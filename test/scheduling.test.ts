@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import sharp from 'sharp';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { callTool, loadTools, samplePhoto, useFakeBackend } from './helpers.js';
+
+useFakeBackend();
+const { getPublishedMedia, resetFake } = await import('../src/adapters/index.js');
+const { AuditService, ScheduleService } = await import('../src/core/services/index.js');
+const { runDuePosts, startScheduler, stopScheduler } = await import('../src/scheduler.js');
+const tools = await loadTools();
+const photo = await samplePhoto();
+
+describe('instagram_schedule_post', () => {
+  beforeEach(async () => {
+    resetFake();
+    await callTool(tools, 'instagram_login', { username: 'bob', password: 'secret' });
+  });
+
+  test('stores inline media when queueing and publishes it when due', async () => {
+    const scheduled = await callTool(tools, 'instagram_schedule_post', {
+      account: 'bob',
+      mediaUrl: photo,
+      caption: 'Later',
+      publishAt: new Date(Date.now() - 1000).toISOString()
+    });
+    assert.equal(scheduled.success, true);
+    assert.ok(fs.existsSync(scheduled.item.mediaPath));
+
+    await runDuePosts();
+    const item = ScheduleService.get(scheduled.item.id);
+    assert.equal(item?.status, 'published');
+    assert.equal(getPublishedMedia()[0].caption, 'Later');
+    assert.equal(fs.existsSync(ScheduleService.getMediaDir(scheduled.item.id)), false);
+
+    const [entry] = AuditService.query({ tool: 'scheduler_publish' });
+    assert.equal(entry.scheduledId, scheduled.item.id);
+    assert.equal(entry.mediaId, item?.result?.mediaId);
+    assert.equal(entry.mcpSession.transport, 'scheduler');
+  });
+
+  test('refuses media that fails preflight before queueing it', async () => {
+    const tiny = await sharp({ create: { width: 100, height: 100, channels: 3, background: '#000' } }).jpeg().toBuffer();
+    const scheduled = await callTool(tools, 'instagram_schedule_post', {
+      account: 'bob',
+      mediaUrl: { source: 'base64', data: tiny.toString('base64'), mimeType: 'image/jpeg' },
+      publishAt: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+    });
+    assert.equal(scheduled.success, false);
+    assert.match(scheduled.error, /preflight/);
+    assert.equal(ScheduleService.list({ account: 'bob', status: 'pending' }).length, 0);
+  });
+
+  test('sets aside a post that was publishing when the server stopped until it is rescheduled', async () => {
+    const scheduled = await callTool(tools, 'instagram_schedule_post', {
+      account: 'bob',
+      mediaUrl: photo,
+      publishAt: new Date(Date.now() - 1000).toISOString()
+    });
+    // The server stopped after claiming the post, so it may or may not be live
+    ScheduleService.update(scheduled.item.id, { status: 'publishing', attempts: 1 });
+
+    const warn = mock.method(console, 'warn', () => {});
+    try {
+      startScheduler(60 * 60 * 1000);
+    } finally {
+      stopScheduler();
+      warn.mock.restore();
+    }
+    assert.equal(warn.mock.callCount(), 1);
+    assert.equal(ScheduleService.get(scheduled.item.id)?.status, 'interrupted');
+
+    await runDuePosts();
+    assert.equal(getPublishedMedia().length, 0);
+
+    const rescheduled = await callTool(tools, 'instagram_reschedule_post', {
+      id: scheduled.item.id,
+      publishAt: new Date(Date.now() - 1000).toISOString()
+    });
+    assert.equal(rescheduled.item.status, 'pending');
+    await runDuePosts();
+    assert.equal(ScheduleService.get(scheduled.item.id)?.status, 'published');
+    assert.equal(getPublishedMedia().length, 1);
+  });
+});
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { useFakeBackend } from './helpers.js';
+
+const directory = useFakeBackend();
+process.env.IG_SESSION_KEY_FILE = path.join(directory, 'keys', 'session.key');
+const { SessionService } = await import('../src/core/services/index.js');
+const state = { cookies: '{}' };
+
+describe('session store', () => {
+  beforeEach(() => {
+    fs.rmSync('sessions', { recursive: true, force: true });
+    fs.rmSync('keys', { recursive: true, force: true });
+    delete process.env.IG_SESSION_SECRET;
+  });
+
+  test('keeps the generated key outside the session directory', async () => {
+    const warn = mock.method(console, 'warn', () => {});
+    try {
+      await SessionService.save({ account: 'bob', username: 'bob', state, savedAt: new Date().toISOString() });
+    } finally {
+      warn.mock.restore();
+    }
+    assert.match(String(warn.mock.calls[0]?.arguments[0]), /IG_SESSION_SECRET is not set/);
+    assert.ok(fs.existsSync('keys/session.key'));
+    assert.deepEqual(fs.readdirSync('sessions'), ['bob.session']);
+    assert.deepEqual((await SessionService.load('bob'))?.state, state);
+
+    process.env.IG_SESSION_KEY_FILE = path.join(directory, 'sessions', 'session.key');
+    try {
+      await assert.rejects(SessionService.load('bob'), /must be outside the session directory/);
+    } finally {
+      process.env.IG_SESSION_KEY_FILE = path.join(directory, 'keys', 'session.key');
+    }
+  });
+
+  test('moves a key file left beside the sessions by older versions', async () => {
+    process.env.IG_SESSION_KEY_FILE = path.join(directory, 'keys', 'legacy.key');
+    try {
+      fs.mkdirSync('sessions');
+      fs.writeFileSync('sessions/.key', 'legacy-secret');
+      process.env.IG_SESSION_SECRET = 'legacy-secret';
+      await SessionService.save({ account: 'bob', username: 'bob', state, savedAt: new Date().toISOString() });
+      delete process.env.IG_SESSION_SECRET;
+
+      assert.equal((await SessionService.load('bob'))?.username, 'bob');
+      assert.equal(fs.existsSync('sessions/.key'), false);
+      assert.equal(fs.readFileSync('keys/legacy.key', 'utf8'), 'legacy-secret');
+    } finally {
+      process.env.IG_SESSION_KEY_FILE = path.join(directory, 'keys', 'session.key');
+    }
+  });
+
+  test('drops a password stored by older versions', async () => {
+    process.env.IG_SESSION_SECRET = 'test-secret';
+    const legacy = { account: 'bob', username: 'bob', password: 'hunter2', state, savedAt: new Date().toISOString() };
+    await SessionService.save(legacy);
+    const written = fs.readFileSync('sessions/bob.session', 'utf8');
+
+    const { password, ...record } = legacy;
+    assert.deepEqual(await SessionService.load('bob'), record);
+    // The file is rewritten without the password
+    assert.notEqual(fs.readFileSync('sessions/bob.session', 'utf8'), written);
+    assert.deepEqual(await SessionService.load('bob'), record);
+  });
+});